@@ -9,6 +9,18 @@ export function buyProperty() {
   send('buyProperty');
 }
 
+export function declineToBuyProperty() {
+  send('declineToBuyProperty');
+}
+
+export function payJailFine() {
+  send('payJailFine');
+}
+
+export function useJailCard() {
+  send('useJailCard');
+}
+
 export function endTurn() {
   send('endTurn');
 }
@@ -1,6 +1,7 @@
 // WebSocket API wrapper
 import { state, setWebSocket, setPlayerId } from './state.js';
 import { appendChatMessage } from './chat.js';
+import { applyPatch } from './patch.js';
 
 /**
  * Gets the game ID from the URL hash.
@@ -56,11 +57,14 @@ function getWsOrigin() {
   return window.location.origin.replace(/^http/, 'ws');
 }
 
-export function connect(gameId, { onWelcome, onState, onError, onClose, onOpen } = {}) {
+export function connect(gameId, { onWelcome, onState, onAuction, onError, onClose, onOpen } = {}) {
   const wsBase = getWsOrigin();
   const wsUrl = `${wsBase}/api/game/${gameId}/websocket`;
   const ws = new WebSocket(wsUrl);
   setWebSocket(ws);
+  // The last full view from the server and its version; patches build on it
+  let synced = null;
+  let version = null;
 
   ws.onopen = () => {
     onOpen && onOpen();
@@ -71,9 +75,27 @@ export function connect(gameId, { onWelcome, onState, onError, onClose, onOpen }
       const message = JSON.parse(event.data);
       if (message.type === 'WELCOME') {
         setPlayerId(message.payload.id);
+        if (message.payload.token) saveSeatToken(gameId, message.payload.token);
         onWelcome && onWelcome(message.payload);
+      } else if (message.code === 'bad-seat-token') {
+        // The seat could not be resumed; start over with a normal join
+        forgetSeatToken(gameId);
+        onOpen && onOpen();
+      } else if (message.type === 'STATE_PATCH') {
+        const { version: next, baseVersion, ops } = message.payload;
+        if (!synced || baseVersion !== version) {
+          // We missed an update: ask for the whole state again
+          synced = null;
+          ws.send(JSON.stringify({ action: 'resync' }));
+          return;
+        }
+        synced = applyPatch(synced, ops);
+        version = next;
+        onState && onState(structuredClone(synced));
       } else if (message.type === 'GAME_STATE_UPDATE') {
-        onState && onState(message.payload);
+        synced = message.payload;
+        version = message.version;
+        onState && onState(structuredClone(message.payload));
         // If state carries chat history, hydrate UI once
         try {
           const chat = message.payload?.chat;
@@ -85,6 +107,8 @@ export function connect(gameId, { onWelcome, onState, onError, onClose, onOpen }
             }
           }
         } catch {}
+      } else if (message.type === 'AUCTION_UPDATE') {
+        onAuction && onAuction(message.payload);
       } else if (message.type === 'CHAT_MESSAGE') {
         appendChatMessage(message.payload);
       } else if (message.type === 'PEER_JOINED' || message.type === 'PEER_LEFT' ||
@@ -101,7 +125,7 @@ export function connect(gameId, { onWelcome, onState, onError, onClose, onOpen }
     }
   };
 
-  ws.onclose = () => onClose && onClose();
+  ws.onclose = (event) => onClose && onClose(event);
   ws.onerror = (err) => onError && onError(err);
 
   return ws;
@@ -125,13 +149,38 @@ export function sendChat(text) {
   ws.send(JSON.stringify({ action: 'chat', payload: { text: t } }));
 }
 
+function seatTokenKey(gameId) {
+  return `SEAT_TOKEN:${gameId}`;
+}
+
+function saveSeatToken(gameId, token) {
+  try { window.localStorage.setItem(seatTokenKey(gameId), token); } catch {}
+}
+
+function forgetSeatToken(gameId) {
+  try { window.localStorage.removeItem(seatTokenKey(gameId)); } catch {}
+}
+
+/**
+ * Takes back the seat this browser had in a game, using the token from its WELCOME message.
+ * @param {string} gameId The game.
+ * @returns {boolean} True if a rejoin was sent; false if there is no seat to resume.
+ */
+export function rejoin(gameId) {
+  let token = null;
+  try { token = window.localStorage.getItem(seatTokenKey(gameId)); } catch {}
+  if (!token) return false;
+  send('rejoin', { token });
+  return true;
+}
+
 export function join(name, color, edition = 'classic') {
-  const lowered = (name || '').toString().trim().toLowerCase();
-  const user = window.__user || (lowered === 'whobcode13' ? 'whobcode13' : undefined);
+  // The server seats signed-in players by their session cookie; everyone else asks for a guest seat
+  const guest = !window.__user || Boolean(window.__guest);
 
   // Include player count and host status from session
   const playerCount = window.__playerCount || null;
   const isHost = window.__isHost || false;
 
-  send('join', { name, color, edition, user, playerCount, isHost });
+  send('join', { name, color, edition, guest, playerCount, isHost });
 }
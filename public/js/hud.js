@@ -1,3 +1,5 @@
+import { renderLogEntry } from './log.js';
+
 export function updateMoneybar(gameState) {
   console.log(`[updateMoneybar] Called with ${gameState.players?.length || 0} players`, gameState.players);
 
@@ -17,7 +19,7 @@ export function updateMoneybar(gameState) {
 
     if (pMoney && pName && pBar && row) {
       pMoney.textContent = p.money;
-      pName.textContent = p.name;
+      pName.textContent = p.autopilot ? `${p.name} (AI)` : p.disconnectedAt ? `${p.name} (away)` : p.name;
       pBar.style.borderColor = p.color;
       row.style.display = 'table-row';
       console.log(`[updateMoneybar] Updated row ${rowNum} for ${p.name} (${p.isHuman ? 'Human' : 'AI'}): $${p.money}`);
@@ -36,15 +38,54 @@ export function updateQuickStats(gameState) {
   }
 }
 
+// Entries shown in the event log, by sequence number. Older pages fetched from the
+// server stay here until the game changes
+const logView = { gameId: null, entries: new Map(), oldestShown: undefined, nextBefore: undefined, expanded: false, gameState: null };
+
 export function updateEventLog(gameState, limit = 15) {
   const list = document.getElementById('eventlog-list');
   if (!list || !Array.isArray(gameState.log)) return;
-  const items = gameState.log.slice(-limit);
-  list.innerHTML = items.map(item => `<li>${escapeHtml(item)}</li>`).join('');
+  if (logView.gameId !== gameState.gameId || !logView.expanded) {
+    logView.gameId = gameState.gameId;
+    logView.entries.clear();
+    logView.expanded = false;
+  }
+  gameState.log.forEach((entry, i) => logView.entries.set(entry?.seq ?? i, entry));
+  logView.gameState = gameState;
+  renderEventLog(limit);
   // cache last state for trade UI
   try { state.lastGameState = gameState; } catch {}
 }
 
+function renderEventLog(limit = 15) {
+  const list = document.getElementById('eventlog-list');
+  if (!list) return;
+  const sorted = [...logView.entries.entries()].sort((a, b) => a[0] - b[0]).map(([, entry]) => entry);
+  const items = logView.expanded ? sorted : sorted.slice(-limit);
+  list.innerHTML = items.map(item => `<li>${escapeHtml(renderLogEntry(item, logView.gameState))}</li>`).join('');
+  logView.oldestShown = items[0]?.seq;
+  const older = document.getElementById('eventlog-older');
+  const more = logView.expanded ? logView.nextBefore !== undefined : (logView.oldestShown ?? 1) > 1;
+  if (older) older.style.display = more ? '' : 'none';
+}
+
+/**
+ * Fetches the page of log entries before the oldest one shown and adds it to the event log.
+ * @param {string} gameId The game whose log is shown.
+ * @param {number} [limit] The most entries to fetch.
+ */
+export async function loadOlderLogEntries(gameId, limit = 50) {
+  const before = logView.expanded ? logView.nextBefore : logView.oldestShown;
+  if (!gameId || !Number.isInteger(before)) return;
+  const res = await fetch(`/api/game/${encodeURIComponent(gameId)}/log?before=${before}&limit=${limit}`);
+  if (!res.ok) return;
+  const page = await res.json();
+  logView.expanded = true;
+  for (const entry of page.entries || []) logView.entries.set(entry.seq, entry);
+  logView.nextBefore = page.nextBefore;
+  renderEventLog();
+}
+
 function escapeHtml(s) {
   return String(s)
     .replace(/&/g, '&amp;')
@@ -0,0 +1,140 @@
+// Renders structured log entries in the player's language. Entries carry English text,
+// so English needs no templates; other languages fall back to it for anything missing.
+
+const TEMPLATES = {
+  es: {
+    'join': '{actor} se ha unido a la partida.',
+    'roll': '{actor} sacó un {die1} y un {die2}.',
+    'roll:utility': '{actor} tiró un {die1} y un {die2} por el servicio.',
+    'move': '{actor} avanzó a {square}.',
+    'move:landed': '{actor} cayó en {square}.',
+    'pass-go': '{actor} pasó por la SALIDA y cobró ${amount}.',
+    'pass-go:double': '{actor} cayó en la SALIDA y cobró el doble: ${amount}.',
+    'jail': '{actor} va a la cárcel.',
+    'jail:doubles': '{actor} sacó dobles tres veces y va a la cárcel.',
+    'jail:stays': '{actor} sigue en la cárcel.',
+    'jail-release:doubles': '{actor} sacó dobles y salió de la cárcel.',
+    'jail-release:fine': '{actor} pagó ${amount} para salir de la cárcel.',
+    'jail-release:card': '{actor} usó una carta de Quedas libre de la cárcel.',
+    'tax': '{actor} pagó ${amount} de impuestos.',
+    'jackpot': '{actor} se llevó el bote del Parking Gratuito: ${amount}.',
+    'buy': '{actor} compró {square} por ${amount}.',
+    'buy:offered': '{actor} puede comprar {square} por ${amount}.',
+    'buy:declined': '{actor} no compró {square}.',
+    'buy:unaffordable': '{actor} no puede pagar {square}.',
+    'rent': '{actor} paga ${amount} de alquiler a {owner}.',
+    'build': '{actor} construyó en {square}.',
+    'sell-building': '{actor} vendió un edificio de {square}.',
+    'mortgage': '{actor} hipotecó {square} por ${amount}.',
+    'mortgage:interest': '{actor} mantiene {square} hipotecada y paga ${amount} de intereses.',
+    'unmortgage': '{actor} levantó la hipoteca de {square} por ${amount}.',
+    'payment': '{actor} pagó ${amount} a {creditor}.',
+    'payment:repairs': '{actor} paga ${amount} en reparaciones.',
+    'debt': '{actor} debe ${amount} a {creditor} y tiene que reunir fondos.',
+    'debt:short': '{actor} aún necesita ${amount} para pagar sus deudas.',
+    'debt:expired': '{actor} se quedó sin tiempo para reunir fondos.',
+    'bankruptcy': '{actor} está en bancarrota y entrega sus bienes a {creditor}.',
+    'turn': 'Es el turno de {actor}.',
+    'win': '¡{actor} gana la partida!',
+    'trade:proposed': '{actor} propone un intercambio a {players}.',
+    'trade:countered': '{actor} hace una contraoferta a {players}.',
+    'trade:gift': '{actor} ofrece un regalo a {players}.',
+    'trade:completed': 'Intercambio completado entre {players}.',
+    'trade:withdrawn': '{actor} retiró el intercambio.',
+    'trade:rejected': '{actor} rechazó el intercambio.',
+    'trade:expired': 'El intercambio entre {players} caducó.',
+    'auction:started': 'Empieza la subasta de {square}.',
+    'auction:sealed': 'Empieza la subasta a sobre cerrado de {square}.',
+    'auction:no-bids': 'La subasta de {square} terminó sin pujas.',
+    'bid': '{actor} puja ${amount}.',
+    'bid:sealed': '{actor} entregó su puja en sobre cerrado.',
+    'bid:passed': '{actor} pasa.',
+    'auction-won': '{actor} ganó la subasta de {square} por ${amount}.',
+    'connection:disconnected': '{actor} se desconectó; su asiento se guarda {seconds} s.',
+    'connection:reconnected': '{actor} volvió a conectarse.',
+    'connection:autopilot': '{actor} no ha vuelto; una IA ocupa su asiento hasta que regrese.',
+    'connection:idle': '{actor} no responde; una IA ocupa su asiento hasta que vuelva a jugar.',
+    'connection:returned': '{actor} ha vuelto y retoma el control.',
+    'connection:paused': 'No queda nadie en la mesa; la partida espera a que alguien vuelva.',
+    'timer:auto-roll': '{actor} se quedó sin tiempo; se tiran los dados en su lugar.',
+    'timer:auto-decline-purchase': '{actor} se quedó sin tiempo; se rechaza la compra de {square}.',
+    'timer:auto-end-turn': '{actor} se quedó sin tiempo; se termina su turno.',
+  },
+  fr: {
+    'join': '{actor} a rejoint la partie.',
+    'roll': '{actor} a fait {die1} et {die2}.',
+    'move': '{actor} avance jusqu’à {square}.',
+    'move:landed': '{actor} tombe sur {square}.',
+    'pass-go': '{actor} passe par la case Départ et reçoit {amount} $.',
+    'jail': '{actor} va en prison.',
+    'jail:stays': '{actor} reste en prison.',
+    'jail-release:fine': '{actor} paie {amount} $ pour sortir de prison.',
+    'tax': '{actor} paie {amount} $ d’impôts.',
+    'buy': '{actor} achète {square} pour {amount} $.',
+    'buy:offered': '{actor} peut acheter {square} pour {amount} $.',
+    'rent': '{actor} paie {amount} $ de loyer à {owner}.',
+    'build': '{actor} construit sur {square}.',
+    'mortgage': '{actor} hypothèque {square} pour {amount} $.',
+    'unmortgage': '{actor} lève l’hypothèque de {square} pour {amount} $.',
+    'payment': '{actor} paie {amount} $ à {creditor}.',
+    'turn': 'C’est au tour de {actor}.',
+    'win': '{actor} gagne la partie !',
+    'trade:completed': 'Échange conclu entre {players}.',
+    'bid': '{actor} enchérit {amount} $.',
+    'bid:passed': '{actor} passe.',
+    'auction-won': '{actor} remporte {square} aux enchères pour {amount} $.',
+    'connection:disconnected': '{actor} a perdu la connexion ; sa place est gardée {seconds} s.',
+    'connection:autopilot': '{actor} n’est toujours pas là ; une IA joue à sa place en attendant.',
+    'connection:idle': '{actor} ne joue plus ; une IA prend sa place jusqu’à son retour.',
+    'connection:returned': '{actor} est de retour et reprend la main.',
+    'connection:paused': 'Tout le monde est absent ; la partie attend que quelqu’un revienne.',
+    'timer:auto-roll': '{actor} n’a plus de temps ; les dés sont lancés à sa place.',
+    'timer:auto-decline-purchase': '{actor} n’a plus de temps ; l’achat de {square} est refusé à sa place.',
+    'timer:auto-end-turn': '{actor} n’a plus de temps ; son tour se termine.',
+  },
+};
+
+const BANK = { es: 'la banca', fr: 'la banque' };
+// Marks moves the AI made in a human's seat
+const AUTOPILOT = { es: ' (piloto automático)', fr: ' (pilote automatique)' };
+
+function preferredLocale() {
+  try {
+    const stored = window.localStorage.getItem('LOCALE');
+    if (stored) return stored;
+  } catch {}
+  return (navigator.languages?.[0] || navigator.language || 'en').slice(0, 2).toLowerCase();
+}
+
+/**
+ * Renders a log entry in the player's language.
+ * @param {object|string} entry A log entry (games stored before the log was structured send plain lines).
+ * @param {object} gameState The state the entry belongs to, for player and square names.
+ * @param {string} [locale] Two-letter language code; defaults to the browser's.
+ * @returns {string} The rendered line.
+ */
+export function renderLogEntry(entry, gameState, locale = preferredLocale()) {
+  if (typeof entry !== 'object' || entry === null) return String(entry ?? '');
+  const templates = TEMPLATES[locale];
+  if (!templates) return entry.text;
+  const variant = entry.params?.variant;
+  const template = (variant ? templates[`${entry.type}:${variant}`] : templates[entry.type]);
+  if (!template) return entry.text;
+
+  const name = id => gameState?.players?.find(p => p.id === id)?.name;
+  const values = {
+    ...entry.params,
+    actor: name(entry.actorId),
+    square: gameState?.squares?.[entry.squareIds?.[0]]?.name,
+    amount: entry.amount,
+    owner: name(entry.params?.ownerId),
+    creditor: entry.params?.creditorId !== undefined ? name(entry.params.creditorId) : BANK[locale],
+  };
+  let missing = false;
+  const line = template.replace(/\{(\w+)\}/g, (_, key) => {
+    if (values[key] === undefined) missing = true;
+    return String(values[key]);
+  });
+  if (missing) return entry.text;
+  return entry.autopilot ? line.replace(/\.?$/, m => `${AUTOPILOT[locale]}${m}`) : line;
+}
@@ -1,12 +1,13 @@
 // Entry point
-import { gameIdFromHash, getCurrentGameId, connect, join, send } from './api.js';
+import { gameIdFromHash, getCurrentGameId, connect, join, rejoin, send } from './api.js';
 import { state, setWebSocket } from './state.js';
-import { showGame, hideGame, updateGameStats } from './ui.js';
+import { showGame, hideGame, updateGameStats, describeRules } from './ui.js';
 import { buildBoard, updateOwners, updateTokens } from './board.js';
-import { updateMoneybar, updateQuickStats, updateEventLog } from './hud.js';
+import { updateMoneybar, updateQuickStats, updateEventLog, loadOlderLogEntries } from './hud.js';
+import { renderLogEntry } from './log.js';
 import { initChatUI } from './chat.js';
 import { renderDice } from './dice.js';
-import { rollDice, buyProperty } from './actions.js';
+import { rollDice, buyProperty, declineToBuyProperty, payJailFine, useJailCard } from './actions.js';
 import { whoAmI, login, logout } from './auth.js';
 import { initVideoChat, handleWebRTCMessage } from './video-chat.js';
 import { initBoardLogoCycling } from './board-logo.js';
@@ -81,6 +82,8 @@ function onOpen() {
   const url = new URL(window.location.href);
   const spectate = url.searchParams.get('spectate') === '1';
   if (!spectate) {
+    // A seat this browser already holds is resumed rather than joined again
+    if (rejoin(getCurrentGameId())) return;
     const playerName = document.getElementById('player1name').value;
     const playerColor = document.getElementById('player1color').value;
     const edition = (document.getElementById('edition')?.value) || 'classic';
@@ -99,7 +102,17 @@ function onWelcome(payload) {
   // No manual AI/local count selection needed anymore
 }
 
+// Bids arrive as auction-only updates. They are kept beside the synced state, which
+// only changes through full updates and patches, until the next update replaces them
+function onAuction(update) {
+  if (!window.__state?.lastGameState) return;
+  window.__state.liveAuction = update;
+  if (update.log?.length) showStatus(renderLogEntry(update.log[update.log.length - 1], window.__state.lastGameState));
+  refreshAuction();
+}
+
 function onState(gameState) {
+  window.__state.liveAuction = null;
   if (!state.boardBuilt && Array.isArray(gameState.squares) && gameState.squares.length === 40) {
     buildBoard(gameState.squares);
   }
@@ -110,6 +123,12 @@ function onState(gameState) {
   updateTokens(gameState);
   updateEventLog(gameState);
   updateGameStats(gameState);
+  const me = gameState.players?.find(p => p.id === state.playerId);
+  const aiLevel = document.getElementById('ailevel');
+  if (aiLevel && me) aiLevel.value = me.aiDifficulty || 'medium';
+  // Timers count down from when the state arrived
+  window.__state.timers = gameState._timers ? { ...gameState._timers, receivedAt: Date.now() } : null;
+  refreshTimers();
   // cache
   window.__state.lastGameState = gameState;
 
@@ -149,15 +168,44 @@ function onState(gameState) {
     }
   }
 
-  // Enable roll button for current player ONLY when in rolling state
+  // Enable turn buttons for the current player only in the phases that allow them
   const rollDiceBtn = document.getElementById('nextbutton');
-  if (state.playerId !== undefined) {
-    // Disable if not current player OR if not in rolling state
-    const isMyTurn = gameState.currentPlayerId === state.playerId;
-    const canRoll = gameState.turnState === 'rolling' || gameState.turnState === undefined;
-    rollDiceBtn.disabled = !isMyTurn || !canRoll;
-  } else {
-    rollDiceBtn.disabled = true;
+  const isMyTurn = state.playerId !== undefined && gameState.currentPlayerId === state.playerId;
+  const phase = gameState.phase;
+  rollDiceBtn.disabled = !isMyTurn || (phase !== 'pre-roll' && phase !== 'jail-decision');
+  const buyBtn = document.getElementById('buy-btn');
+  if (buyBtn) buyBtn.disabled = !isMyTurn || phase !== 'resolve-landing';
+  const declineBtn = document.getElementById('decline-btn');
+  if (declineBtn) declineBtn.disabled = !isMyTurn || phase !== 'resolve-landing';
+  const payFineBtn = document.getElementById('payfine');
+  if (payFineBtn) payFineBtn.disabled = !isMyTurn || phase !== 'jail-decision';
+  const jailCardBtn = document.getElementById('jailcard');
+  if (jailCardBtn) jailCardBtn.disabled = !isMyTurn || phase !== 'jail-decision' || !(me?.chanceJailCard || me?.communityChestJailCard);
+  const endTurnBtn = document.getElementById('endturn');
+  if (endTurnBtn) endTurnBtn.disabled = !isMyTurn || phase !== 'post-roll';
+
+  // Debt buttons are for whoever owes money, on their turn or not
+  const myDebts = (gameState.debts || []).filter(d => d.debtorId === state.playerId);
+  const owed = myDebts.reduce((sum, d) => sum + d.amount, 0);
+  const payDebtBtn = document.getElementById('paydebt');
+  if (payDebtBtn) {
+    payDebtBtn.disabled = owed === 0;
+    payDebtBtn.value = owed ? `Pay Debt ($${owed})` : 'Pay Debt';
+  }
+  const bankruptBtn = document.getElementById('bankrupt');
+  if (bankruptBtn) bankruptBtn.disabled = owed === 0;
+  const myObligations = (gameState.mortgageObligations || []).filter(o => o.playerId === state.playerId);
+  const settleBtn = document.getElementById('settlemortgage');
+  if (settleBtn) settleBtn.disabled = myObligations.length === 0;
+  if (myObligations.length && !owed) {
+    const names = myObligations.map(o => gameState.squares[o.squareId]?.name).join(', ');
+    showStatus(`You received mortgaged property (${names}). Pay 10% interest or lift the mortgage.`);
+    return;
+  }
+  if (owed) {
+    const deadline = Math.min(...myDebts.map(d => d.deadline));
+    showStatus(`You owe $${owed}. Sell, mortgage or trade, then pay by ${new Date(deadline).toLocaleTimeString()}.`);
+    return;
   }
 
   // If this is the first state we received after Start, ensure status is hidden
@@ -166,12 +214,14 @@ function onState(gameState) {
 
 function onError(err) {
   console.error('Server error:', err);
-  showStatus(`Connection error. ${err?.message || ''}`.trim());
+  // Rejected actions arrive as plain messages; anything else is a socket problem
+  showStatus(typeof err === 'string' ? err : `Connection error. ${err?.message || ''}`.trim());
 }
 
-function onClose() {
+function onClose(event) {
   console.log('Disconnected from WebSocket server.');
-  showStatus('Connection lost.');
+  // The server gives a reason when it cut this connection off on purpose
+  showStatus(event?.reason || 'Connection lost.');
 }
 
 async function startGame() {
@@ -181,8 +231,9 @@ async function startGame() {
     if (nameVal.toLowerCase() === 'whobcode13') {
       try { await (await import('./auth.js')).login('whobcode13'); await refreshAuth(); }
       catch {
-        // If login endpoint not available, set local identity so join() carries it
+        // If login endpoint not available, play under that name in a guest seat
         window.__user = 'whobcode13';
+        window.__guest = true;
         const status = document.getElementById('authstatus');
         if (status) status.textContent = 'Signed in as whobcode13';
       }
@@ -207,7 +258,7 @@ async function startGame() {
   window.__isHost = isHost;
 
   const id = gameIdFromHash();
-  const ws = connect(id, { onWelcome, onState, onError, onClose, onOpen });
+  const ws = connect(id, { onWelcome, onState, onAuction, onError, onClose, onOpen });
   setWebSocket(ws);
   // Show the board/controls immediately after clicking Start
   showGame();
@@ -225,7 +276,13 @@ if (rollDiceBtn) rollDiceBtn.onclick = rollDice;
 const buyBtn = document.getElementById('buy-btn');
 const tradeBtn = document.getElementById('trade-btn');
 if (buyBtn) buyBtn.onclick = buyProperty;
+const declineBtn = document.getElementById('decline-btn');
+if (declineBtn) declineBtn.onclick = declineToBuyProperty;
 if (tradeBtn) tradeBtn.onclick = openTrade;
+const payFineBtn = document.getElementById('payfine');
+if (payFineBtn) payFineBtn.onclick = payJailFine;
+const jailCardBtn = document.getElementById('jailcard');
+if (jailCardBtn) jailCardBtn.onclick = useJailCard;
 const endTurnBtn = document.getElementById('endturn');
 if (endTurnBtn) endTurnBtn.onclick = () => send('endTurn');
 const buildBtn = document.getElementById('build');
@@ -233,6 +290,26 @@ if (buildBtn) buildBtn.onclick = () => {
   const id = prompt('Build on which square id?');
   if (id) send('buildHouse', { squareId: parseInt(id, 10) });
 };
+const sellBtn = document.getElementById('sell');
+if (sellBtn) sellBtn.onclick = () => {
+  const id = prompt('Sell a building from which square id?');
+  if (id) send('sellHouse', { squareId: parseInt(id, 10) });
+};
+const payDebtBtn = document.getElementById('paydebt');
+if (payDebtBtn) payDebtBtn.onclick = () => send('payDebt');
+const settleMortgageBtn = document.getElementById('settlemortgage');
+if (settleMortgageBtn) settleMortgageBtn.onclick = () => {
+  const gs = window.__state?.lastGameState;
+  const o = (gs?.mortgageObligations || []).find(x => x.playerId === state.playerId);
+  const sq = o && gs.squares[o.squareId];
+  if (!sq) return;
+  const lift = confirm(`Lift the mortgage on ${sq.name} for $${Math.ceil(sq.price * 0.55)}?\nCancel to pay $${Math.ceil(sq.price * 0.05)} interest and keep it mortgaged.`);
+  send('resolveMortgage', { squareId: sq.id, lift });
+};
+const bankruptBtn = document.getElementById('bankrupt');
+if (bankruptBtn) bankruptBtn.onclick = () => {
+  if (confirm('Declare bankruptcy? You will be out of the game.')) send('declareBankruptcy');
+};
 const mortgageBtn = document.getElementById('mortgage');
 if (mortgageBtn) mortgageBtn.onclick = () => {
   const id = prompt('Mortgage which square id?');
@@ -243,13 +320,50 @@ if (unmortgageBtn) unmortgageBtn.onclick = () => {
   const id = prompt('Unmortgage which square id?');
   if (id) send('unmortgage', { squareId: parseInt(id, 10) });
 };
-const startAuctionBtn = document.getElementById('startauction');
-if (startAuctionBtn) startAuctionBtn.onclick = () => {
+const rulesBtn = document.getElementById('rulesbtn');
+if (rulesBtn) rulesBtn.onclick = () => {
+  const gs = window.__state?.lastGameState;
+  if (!gs?.rules) return;
+  const canEdit = gs.hostPlayerId === state.playerId && gs.startedAt === undefined;
+  if (!canEdit) {
+    alert(`House rules: ${describeRules(gs.rules)}`);
+    return;
+  }
+  const input = prompt('Edit house rules (JSON). Locked after the first roll.', JSON.stringify(gs.rules, null, 1));
+  if (!input) return;
+  try {
+    send('setRules', { rules: JSON.parse(input) });
+  } catch {
+    alert('Rules must be valid JSON.');
+  }
+};
+
+const aiLevelSelect = document.getElementById('ailevel');
+if (aiLevelSelect) aiLevelSelect.onchange = () => send('setAiDifficulty', { difficulty: aiLevelSelect.value });
+
+const rollbackBtn = document.getElementById('rollbackbtn');
+if (rollbackBtn) rollbackBtn.onclick = () => {
   const gs = window.__state?.lastGameState;
   if (!gs) return;
-  const sq = gs.squares[gs.players.find(p=>p.id===gs.currentPlayerId)?.position || 0];
-  const id = prompt('Start auction for which square id?', (sq?.id ?? 0).toString());
-  if (id) send('startAuction', { squareId: parseInt(id, 10) });
+  if (gs.hostPlayerId !== state.playerId) {
+    alert('Only the host can roll the game back.');
+    return;
+  }
+  const input = prompt(`Roll back to which turn? (current turn: ${gs.turn}; the nearest earlier snapshot is used)`);
+  if (!input) return;
+  const turn = Number(input);
+  if (!Number.isInteger(turn) || turn < 0) {
+    alert('Enter a turn number.');
+    return;
+  }
+  if (!confirm(`Roll the game back to turn ${turn}? Everything after it is undone.`)) return;
+  send('rollbackToTurn', { turn });
+};
+const startAuctionBtn = document.getElementById('startauction');
+if (startAuctionBtn) startAuctionBtn.onclick = () => {
+  if (!window.__state?.lastGameState) return;
+  // The server auctions the square the current player landed on
+  send('startAuction');
   openAuctionModal();
 };
 
@@ -262,6 +376,7 @@ function openAuctionModal() {
     const amt = parseInt(document.getElementById('bidamount').value || '0', 10) || 0;
     if (amt > 0) send('placeBid', { amount: amt });
   };
+  document.getElementById('passauction').onclick = () => send('passAuction');
   document.getElementById('auctionclose').onclick = () => { modal.style.display = 'none'; };
 }
 
@@ -269,19 +384,49 @@ function refreshAuction() {
   const modal = document.getElementById('auctionmodal');
   if (!modal || modal.style.display === 'none') return;
   const gs = window.__state?.lastGameState;
-  const a = gs?.auction;
+  const live = window.__state.liveAuction;
+  const a = live ? live.auction : gs?.auction;
   const info = document.getElementById('auctioninfo');
   const timer = document.getElementById('auctiontimer');
   if (!a) { info.textContent = 'No auction in progress.'; timer.textContent = '--'; return; }
   const sq = gs.squares[a.squareId];
   const leader = a.highestBidderId !== undefined ? gs.players.find(p=>p.id===a.highestBidderId)?.name : 'None';
-  info.textContent = `${sq.name} — highest bid $${a.highestBid || 0} by ${leader || 'None'}`;
+  const lot = a.kind === 'building' ? `A ${a.building} (the bank is short)` : sq.name;
+  const minimum = live?.minimumBid ?? (a.highestBid || 0) + (gs.rules?.auctionIncrement || 1);
+  const passed = (a.passed || []).map(id => gs.players.find(p => p.id === id)?.name).filter(Boolean);
+  const mine = (a.bids || []).find(b => b.playerId === window.__state.playerId);
+  info.textContent = (a.sealed
+    ? `${lot} — sealed bids (${a.sealed.replace('-', ' ')}); ${mine ? `your bid: $${mine.amount}` : `bid at least $${minimum}`}`
+    : `${lot} — highest bid $${a.highestBid || 0} by ${leader || 'None'}; next bid at least $${minimum}`)
+    + (passed.length ? `. Passed: ${passed.join(', ')}` : '');
+  const bidInput = document.getElementById('bidamount');
+  if ((parseInt(bidInput.value, 10) || 0) < minimum && document.activeElement !== bidInput) bidInput.value = minimum;
   const remaining = Math.max(0, Math.floor(((a.endTime||0) - Date.now())/1000));
   timer.textContent = `${remaining}s`;
 }
 
 setInterval(refreshAuction, 1000);
 
+function formatClock(ms) {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function refreshTimers() {
+  const el = document.getElementById('turntimer');
+  if (!el) return;
+  const t = window.__state?.timers;
+  if (!t) { el.style.display = 'none'; return; }
+  const spent = t.running ? Date.now() - t.receivedAt : 0;
+  const parts = [];
+  if (t.turnMs !== undefined) parts.push(`⏱ ${formatClock(Math.max(0, t.turnMs - spent))}`);
+  if (t.clockMs !== undefined) parts.push(`♟ ${formatClock(Math.max(0, t.clockMs - spent))}`);
+  el.textContent = parts.join(' ');
+  el.style.display = '';
+}
+
+setInterval(refreshTimers, 1000);
+
 // View Log toggle
 const viewLogBtn = document.getElementById('viewlog');
 if (viewLogBtn) {
@@ -293,6 +438,10 @@ if (viewLogBtn) {
     viewLogBtn.value = isShown ? 'View Log' : 'Hide Log';
   };
 }
+const olderLogBtn = document.getElementById('eventlog-older');
+if (olderLogBtn) {
+  olderLogBtn.onclick = () => loadOlderLogEntries(getCurrentGameId()).catch(e => console.warn('Could not load older log entries', e));
+}
 
 // Auth wiring
 let loginModal;
@@ -478,49 +627,127 @@ window.addEventListener('DOMContentLoaded', async () => {
 });
 
 // Trade UI
+// Legs added to the trade being drafted, and the trade being countered if any
+let draftLegs = [];
+let counterOf = null;
+
+// The two legs described by the form: what the first player gives and gets back
+function formLegs() {
+  const selected = id => Array.from(document.getElementById(id).selectedOptions).map(o => parseInt(o.value, 10));
+  const amount = id => parseInt(document.getElementById(id).value || '0', 10) || 0;
+  const fromId = parseInt(document.getElementById('tradefrom').value, 10);
+  const toId = parseInt(document.getElementById('tradetarget').value, 10);
+  if (Number.isNaN(fromId) || Number.isNaN(toId) || fromId === toId) return [];
+  return [
+    { fromId, toId, money: amount('offerMoney'), properties: selected('offerProps'), jailCards: amount('offerJail') },
+    { fromId: toId, toId: fromId, money: amount('requestMoney'), properties: selected('requestProps'), jailCards: amount('requestJail') },
+  ].filter(leg => leg.money || leg.properties.length || leg.jailCards);
+}
+
+function resetTradeForm() {
+  for (const id of ['offerMoney', 'requestMoney', 'offerJail', 'requestJail']) document.getElementById(id).value = '0';
+  for (const id of ['offerProps', 'requestProps']) for (const o of document.getElementById(id).options) o.selected = false;
+}
+
 function openTrade() {
   const modal = document.getElementById('trademodal');
   if (!modal) return;
+  draftLegs = [];
+  counterOf = null;
   refreshTradeModal(window.__state?.lastGameState);
   modal.style.display = 'block';
+  document.getElementById('tradefrom').onchange = () => refreshTradeModal(window.__state?.lastGameState);
+  document.getElementById('tradetarget').onchange = () => refreshTradeModal(window.__state?.lastGameState);
+  document.getElementById('addtradeleg').onclick = () => {
+    draftLegs.push(...formLegs());
+    resetTradeForm();
+    refreshTradeModal(window.__state?.lastGameState);
+  };
   document.getElementById('proposetrade').onclick = () => {
-    const to = parseInt(targetSel.value, 10);
-    const offerMoney = parseInt(document.getElementById('offerMoney').value || '0', 10) || 0;
-    const requestMoney = parseInt(document.getElementById('requestMoney').value || '0', 10) || 0;
-    const offerPropsSel = Array.from(offerProps.selectedOptions).map(o => parseInt(o.value, 10));
-    const requestPropsSel = Array.from(requestProps.selectedOptions).map(o => parseInt(o.value, 10));
-    if (to) {
-      send('proposeTrade', {
-        recipientId: to,
-        offer: { money: offerMoney, properties: offerPropsSel, jailCards: 0 },
-        request: { money: requestMoney, properties: requestPropsSel, jailCards: 0 }
-      });
-    }
+    const legs = [...draftLegs, ...formLegs()];
+    if (!legs.length) return;
+    if (counterOf) send('counterTrade', { tradeId: counterOf, legs });
+    else send('proposeTrade', { legs });
+    draftLegs = [];
+    counterOf = null;
+    resetTradeForm();
   };
-  document.getElementById('accepttrade').onclick = () => send('acceptTrade');
-  document.getElementById('rejecttrade').onclick = () => send('rejectTrade');
   document.getElementById('tradeclose').onclick = () => { modal.style.display = 'none'; };
 }
 
+function describeTradeLegs(gs, legs) {
+  const nameOf = id => gs.players.find(p => p.id === id)?.name || `Player ${id}`;
+  return legs.map(leg => {
+    const parts = [];
+    if (leg.money) parts.push(`$${leg.money}`);
+    for (const id of leg.properties) parts.push(gs.squares[id]?.name || `#${id}`);
+    if (leg.jailCards) parts.push(`${leg.jailCards} jail card(s)`);
+    return `${nameOf(leg.fromId)} → ${nameOf(leg.toId)}: ${parts.join(', ')}`;
+  }).join('; ');
+}
+
+function refreshTradeList(gs) {
+  const list = document.getElementById('tradelist');
+  if (!list) return;
+  list.innerHTML = '';
+  const draft = document.getElementById('tradedraft');
+  if (draft) draft.textContent = draftLegs.length ? `Draft: ${describeTradeLegs(gs, draftLegs)}` : '';
+  const me = window.__state.playerId;
+  for (const t of (gs.trades || []).filter(t => t.participants.includes(me))) {
+    const row = document.createElement('div');
+    row.style.margin = '4px 0';
+    const pending = t.participants.filter(id => !t.acceptedBy.includes(id)).length;
+    const text = document.createElement('span');
+    text.textContent = `${describeTradeLegs(gs, t.legs)} (${pending} to accept) `;
+    row.appendChild(text);
+    const button = (label, onclick) => {
+      const b = document.createElement('button');
+      b.textContent = label; b.onclick = onclick;
+      row.appendChild(b);
+    };
+    if (t.initiatorId === me) {
+      button('Withdraw', () => send('rejectTrade', { tradeId: t.id }));
+    } else {
+      if (!t.acceptedBy.includes(me)) button('Accept', () => send('acceptTrade', { tradeId: t.id }));
+      button('Reject', () => send('rejectTrade', { tradeId: t.id }));
+      button('Counter', () => {
+        // Start from the trade as it stands and edit it in the draft
+        counterOf = t.id;
+        draftLegs = t.legs.map(leg => ({ ...leg, properties: [...leg.properties] }));
+        refreshTradeList(gs);
+      });
+    }
+    list.appendChild(row);
+  }
+}
+
 function refreshTradeModal(gs) {
   const modal = document.getElementById('trademodal');
   if (!modal || !gs) return;
+  const fromSel = document.getElementById('tradefrom');
   const targetSel = document.getElementById('tradetarget');
   const offerProps = document.getElementById('offerProps');
   const requestProps = document.getElementById('requestProps');
+  // Keep the chosen players across state updates
+  const fromId = fromSel.value === '' ? window.__state.playerId : parseInt(fromSel.value, 10);
+  const targetId = targetSel.value === '' ? undefined : parseInt(targetSel.value, 10);
+  fromSel.innerHTML = '';
   targetSel.innerHTML = '';
   offerProps.innerHTML = '';
   requestProps.innerHTML = '';
-  // Populate target list
+  // Populate player lists
   for (const p of gs.players) {
-    if (p.id !== window.__state.playerId && !p.bankrupt) {
-      const opt = document.createElement('option'); opt.value = p.id; opt.textContent = `${p.name} ($${p.money})`;
-      targetSel.appendChild(opt);
-    }
+    if (p.bankrupt) continue;
+    const from = document.createElement('option'); from.value = p.id; from.textContent = `${p.name} ($${p.money})`;
+    fromSel.appendChild(from);
+    if (p.id !== fromId) targetSel.appendChild(from.cloneNode(true));
   }
+  fromSel.value = String(fromId);
+  if (targetId !== undefined && targetId !== fromId) targetSel.value = String(targetId);
+  const toId = parseInt(targetSel.value, 10);
   // Group properties by owner and color
-  const mine = gs.squares.filter(s => s.ownerId === window.__state.playerId);
-  const theirs = gs.squares.filter(s => s.ownerId !== undefined && gs.players.find(p => p.id === s.ownerId)?.id !== window.__state.playerId);
+  const givers = gs.squares.filter(s => s.ownerId === fromId);
+  const takers = gs.squares.filter(s => s.ownerId !== undefined && s.ownerId === toId);
   const groupLabel = g => g?.replace('-', ' ') || 'misc';
   const addGrouped = (list, squares) => {
     const byGroup = new Map();
@@ -541,18 +768,9 @@ function refreshTradeModal(gs) {
       list.appendChild(og);
     }
   };
-  addGrouped(offerProps, mine);
-  addGrouped(requestProps, theirs);
-  // Accept/reject visibility
-  const acceptBtn = document.getElementById('accepttrade');
-  const rejectBtn = document.getElementById('rejecttrade');
-  if (gs.trade && gs.trade.recipientId === window.__state.playerId) {
-    acceptBtn.style.display = '';
-    rejectBtn.style.display = '';
-  } else {
-    acceptBtn.style.display = 'none';
-    rejectBtn.style.display = 'none';
-  }
+  addGrouped(offerProps, givers);
+  addGrouped(requestProps, takers);
+  refreshTradeList(gs);
 }
 
 // Mobile responsive functionality
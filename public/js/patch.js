@@ -0,0 +1,37 @@
+// Applies the server's STATE_PATCH operations (JSON Patch: add, remove, replace)
+
+function parsePointer(path) {
+  if (path === '') return [];
+  return path.slice(1).split('/').map(t => t.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Applies patch operations to a copy of a document.
+ * @param {object} doc The document the patch was made against (left unchanged).
+ * @param {Array} ops The operations, in order.
+ * @returns {object} The patched document.
+ */
+export function applyPatch(doc, ops) {
+  let root = structuredClone(doc);
+  for (const op of ops) {
+    const tokens = parsePointer(op.path);
+    if (tokens.length === 0) {
+      root = op.op === 'remove' ? undefined : structuredClone(op.value);
+      continue;
+    }
+    const key = tokens.pop();
+    let parent = root;
+    for (const t of tokens) parent = parent[Array.isArray(parent) ? parseInt(t, 10) : t];
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : parseInt(key, 10);
+      if (op.op === 'add') parent.splice(index, 0, op.value);
+      else if (op.op === 'remove') parent.splice(index, 1);
+      else parent[index] = op.value;
+    } else if (op.op === 'remove') {
+      delete parent[key];
+    } else {
+      parent[key] = op.value;
+    }
+  }
+  return root;
+}
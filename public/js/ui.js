@@ -1,4 +1,5 @@
 // Simple UI helpers
+import { renderLogEntry } from './log.js';
 
 export function showGame() {
   const setupDiv = document.getElementById('setup');
@@ -64,15 +65,15 @@ export function updateGameStats(gameState) {
   }
 
   if (phaseEl) {
-    const phase = gameState.turnState || 'waiting';
+    const phase = gameState.phase || 'waiting';
     const phaseLabels = {
-      'rolling': '🎲 Rolling',
-      'moving': '🚶 Moving',
-      'buying': '🏠 Buying',
-      'paying': '💰 Paying',
-      'auctioning': '🔨 Auction',
-      'trading': '🤝 Trading',
-      'end': '✅ End Turn',
+      'pre-roll': '🎲 Rolling',
+      'jail-decision': '🔒 In Jail',
+      'resolve-landing': '🏠 Buying',
+      'debt-resolution': '💰 Paying',
+      'auction': '🔨 Auction',
+      'trade-window': '🤝 Trading',
+      'post-roll': '✅ End Turn',
       'waiting': '⏳ Waiting'
     };
     phaseEl.textContent = phaseLabels[phase] || phase;
@@ -85,12 +86,48 @@ export function updateGameStats(gameState) {
     }
   }
 
+  const rulesEl = document.getElementById('stat-rules');
+  if (rulesEl && gameState.rules) {
+    rulesEl.textContent = describeRules(gameState.rules);
+  }
+
+  const bankEl = document.getElementById('stat-bank');
+  if (bankEl && gameState.bank) {
+    bankEl.textContent = `${gameState.bank.houses} houses, ${gameState.bank.hotels} hotels`;
+  }
+
+  const potRow = document.getElementById('stat-pot-row');
+  const potEl = document.getElementById('stat-pot');
+  if (potRow && potEl) {
+    const jackpot = gameState.rules?.freeParkingJackpot;
+    potRow.style.display = jackpot ? '' : 'none';
+    if (jackpot) potEl.textContent = `$${gameState.freeParkingPot || 0}`;
+  }
+
   // Update banker message based on game state
   if (bankerMsgEl) {
     const log = gameState.log || [];
     const lastLog = log[log.length - 1];
     if (lastLog) {
-      bankerMsgEl.textContent = lastLog;
+      bankerMsgEl.textContent = renderLogEntry(lastLog, gameState);
     }
   }
 }
+
+export function describeRules(rules) {
+  const parts = [];
+  if (rules.startingCash !== 1500) parts.push(`$${rules.startingCash} start`);
+  if (rules.goSalary !== 200) parts.push(`$${rules.goSalary} GO`);
+  if (rules.doubleSalaryOnGo) parts.push('double GO');
+  if (rules.freeParkingJackpot) parts.push('Free Parking jackpot');
+  if (!rules.auctions) parts.push('no auctions');
+  if (rules.auctionMode && rules.auctionMode !== 'open') parts.push(rules.auctionMode.replace(/-/g, ' ') + ' auctions');
+  if (rules.auctionIncrement && rules.auctionIncrement !== 10) parts.push(`$${rules.auctionIncrement} bids`);
+  if (rules.giftsAllowed) parts.push('gifts');
+  if (rules.jailFine !== 50) parts.push(`$${rules.jailFine} jail fine`);
+  if (rules.maxTurns > 0) parts.push(`${rules.maxTurns} turns`);
+  if (rules.timeLimitMinutes > 0) parts.push(`${rules.timeLimitMinutes} min`);
+  if (rules.turnTimeLimitMs > 0) parts.push(`${Math.round(rules.turnTimeLimitMs / 1000)}s turns`);
+  if (rules.chessClockMs > 0) parts.push(`${Math.round(rules.chessClockMs / 60000)} min clock`);
+  return parts.length ? parts.join(', ') : 'Standard';
+}
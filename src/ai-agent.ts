@@ -3,7 +3,8 @@
  * This module provides AI players that can make autonomous decisions in the game.
  */
 
-import { GameState, Player } from './types';
+import { AiDifficulty, GameState, Player, TurnPhase } from './types';
+import { buildingRent, calculateRent } from './rent';
 
 export interface AIDecision {
   action: string;
@@ -15,10 +16,10 @@ export interface AIDecision {
  */
 export class MonopolyAI {
   private playerId: number;
-  private difficulty: 'easy' | 'medium' | 'hard';
+  private difficulty: AiDifficulty;
   private personality: string;
 
-  constructor(playerId: number, difficulty: 'easy' | 'medium' | 'hard' = 'medium', personality?: string) {
+  constructor(playerId: number, difficulty: AiDifficulty = 'medium', personality?: string) {
     this.playerId = playerId;
     this.difficulty = difficulty;
     this.personality = personality || this.generatePersonality();
@@ -127,18 +128,20 @@ export class MonopolyAI {
     const monopolies = this.findMonopolies(gameState);
     if (monopolies.length === 0) return null;
 
-    // Sort by priority (cheaper colors first for balanced growth)
-    monopolies.sort((a, b) => {
-      const avgPriceA = a.properties.reduce((sum, p) => sum + (p.price || 0), 0) / a.properties.length;
-      const avgPriceB = b.properties.reduce((sum, p) => sum + (p.price || 0), 0) / b.properties.length;
-      return avgPriceA - avgPriceB;
-    });
+    // Sort by priority (most extra rent per dollar spent on the next house first)
+    const rentGain = (p: any) =>
+      (buildingRent(p, (p.houses || 0) + 1) - calculateRent(gameState.squares, p)) / (p.houseCost || 50);
+    const bestGain = (m: { properties: any[] }) => Math.max(...m.properties.map(rentGain));
+    monopolies.sort((a, b) => bestGain(b) - bestGain(a));
 
     for (const monopoly of monopolies) {
+      // Mortgaged groups can't be built on, and hotels are the limit
+      if (monopoly.properties.some(p => p.mortgaged)) continue;
       // Find property in this monopoly with fewest houses
       const buildTarget = monopoly.properties.reduce((min, p) =>
         (p.houses || 0) < (min.houses || 0) ? p : min
       );
+      if ((buildTarget.houses || 0) >= 5) continue;
 
       const houseCost = buildTarget.houseCost || 50;
 
@@ -180,6 +183,25 @@ export class MonopolyAI {
    * Decides on auction bid
    */
   getAuctionBid(gameState: GameState, property: any, currentBid: number): number {
+    const limit = this.getAuctionLimit(gameState, property);
+    // Harder AIs raise in bigger steps
+    const step = this.difficulty === 'easy' ? 10 : this.difficulty === 'medium' ? 20 : 30;
+    return currentBid < limit ? currentBid + step : 0;
+  }
+
+  /**
+   * Decides on a single sealed bid. In a second-price auction the AI bids what the lot
+   * is worth to it; in a first-price auction it shades the bid, since it pays what it bids.
+   */
+  getSealedBid(gameState: GameState, property: any, secondPrice: boolean): number {
+    const limit = this.getAuctionLimit(gameState, property);
+    return Math.max(0, secondPrice ? limit : Math.floor(limit * 0.85));
+  }
+
+  /**
+   * The most the AI will pay for a lot at auction
+   */
+  private getAuctionLimit(gameState: GameState, property: any): number {
     const player = gameState.players.find(p => p.id === this.playerId);
     if (!player) return 0;
 
@@ -189,21 +211,19 @@ export class MonopolyAI {
     switch (this.difficulty) {
       case 'easy':
         // Easy AI: Bid conservatively, up to 60% of property value
-        const easyMax = Math.min(Math.floor(propertyValue * 0.6), maxBid);
-        return currentBid < easyMax ? currentBid + 10 : 0;
+        return Math.min(Math.floor(propertyValue * 0.6), maxBid);
 
       case 'medium':
         // Medium AI: Bid up to 80% of property value
-        const mediumMax = Math.min(Math.floor(propertyValue * 0.8), maxBid);
-        return currentBid < mediumMax ? currentBid + 20 : 0;
+        return Math.min(Math.floor(propertyValue * 0.8), maxBid);
 
       case 'hard':
         // Hard AI: Bid strategically
-        return this.getStrategicBid(gameState, player, property, propertyValue, currentBid, maxBid);
+        return this.getStrategicLimit(gameState, property, propertyValue, maxBid);
     }
   }
 
-  private getStrategicBid(gameState: GameState, player: Player, property: any, propertyValue: number, currentBid: number, maxBid: number): number {
+  private getStrategicLimit(gameState: GameState, property: any, propertyValue: number, maxBid: number): number {
     // Willing to pay more for strategic properties
     let multiplier = 0.9;
 
@@ -219,14 +239,7 @@ export class MonopolyAI {
       }
     }
 
-    const strategicMax = Math.min(Math.floor(propertyValue * multiplier), maxBid);
-
-    if (currentBid < strategicMax) {
-      // Bid in increments of 30
-      return currentBid + 30;
-    }
-
-    return 0;
+    return Math.min(Math.floor(propertyValue * multiplier), maxBid);
   }
 
   /**
@@ -236,7 +249,8 @@ export class MonopolyAI {
     const player = gameState.players.find(p => p.id === this.playerId);
     if (!player) return false;
 
-    const jailFine = 50;
+    const jailFine = gameState.rules?.jailFine ?? 50;
+    if (player.money < jailFine) return false;
 
     // Always pay if we have monopolies to develop
     const monopolies = this.findMonopolies(gameState);
@@ -264,7 +278,7 @@ export class MonopolyAI {
    */
   shouldUseJailCard(gameState: GameState): boolean {
     const player = gameState.players.find(p => p.id === this.playerId);
-    if (!player || !player.getOutOfJailFreeCards || player.getOutOfJailFreeCards === 0) return false;
+    if (!player || !(player.chanceJailCard || player.communityChestJailCard)) return false;
 
     // Save jail cards unless we need to get out
     const monopolies = this.findMonopolies(gameState);
@@ -282,19 +296,19 @@ export class MonopolyAI {
   }
 
   /**
-   * Make an autonomous turn decision
+   * Make an autonomous turn decision for the current turn phase
    */
-  async makeDecision(gameState: GameState, turnState: string): Promise<AIDecision> {
+  async makeDecision(gameState: GameState, phase: TurnPhase = gameState.phase): Promise<AIDecision> {
     const player = gameState.players.find(p => p.id === this.playerId);
     if (!player) {
       return { action: 'wait' };
     }
 
-    switch (turnState) {
-      case 'rolling':
+    switch (phase) {
+      case 'pre-roll':
         return { action: 'roll', reasoning: 'Rolling dice to move' };
 
-      case 'LandedOnUnownedProperty':
+      case 'resolve-landing':
         const square = gameState.squares[player.position];
         const shouldBuy = this.shouldBuyProperty(gameState, square);
         return {
@@ -302,15 +316,18 @@ export class MonopolyAI {
           reasoning: shouldBuy ? `Buying ${square.name}` : `Declining ${square.name}`
         };
 
-      case 'InJail':
+      case 'jail-decision':
         if (this.shouldUseJailCard(gameState)) {
           return { action: 'use-jail-card', reasoning: 'Using Get Out of Jail Free card' };
         }
         if (this.shouldPayJailFine(gameState)) {
-          return { action: 'pay-jail-fine', reasoning: 'Paying $50 to exit jail' };
+          return { action: 'pay-jail-fine', reasoning: `Paying $${gameState.rules?.jailFine ?? 50} to exit jail` };
         }
         return { action: 'roll', reasoning: 'Attempting to roll doubles' };
 
+      case 'post-roll':
+        return { action: 'end-turn', reasoning: 'Nothing left to do this turn' };
+
       default:
         return { action: 'wait' };
     }
@@ -75,6 +75,67 @@ export async function verifySession(secret: string, token: string): Promise<Sess
   }
 }
 
+/** Header in which the Worker tells the Game Durable Object who opened a WebSocket. */
+export const VERIFIED_USER_HEADER = 'X-Verified-User';
+
+/** How long a verified-user header is accepted after it was signed, in milliseconds. */
+const VERIFIED_USER_MAX_AGE_MS = 60_000;
+
+/**
+ * Signs a username the Worker has verified from the SESSION cookie, for the
+ * verified-user header. It is signed with its own key, so a session token cannot be
+ * passed off as one.
+ * @param secret The secret to use for signing.
+ * @param username The verified username.
+ * @returns A promise that resolves to the header value.
+ */
+export async function signVerifiedUser(secret: string, username: string): Promise<string> {
+  return signSession(`${secret}:verified-user`, { sub: username, iat: Date.now() });
+}
+
+/**
+ * Checks a verified-user header.
+ * @param secret The secret to use for verification.
+ * @param value The header value.
+ * @returns A promise that resolves to the username if the header is valid and recent, otherwise undefined.
+ */
+export async function verifyVerifiedUser(secret: string, value: string): Promise<string | undefined> {
+  const sess = await verifySession(`${secret}:verified-user`, value);
+  if (!sess?.sub || Date.now() - sess.iat > VERIFIED_USER_MAX_AGE_MS) return undefined;
+  return sess.sub;
+}
+
+/** How long a seat's reconnect token is accepted after it was signed, in milliseconds. */
+const SEAT_TOKEN_MAX_AGE_MS = 24 * 60 * 60_000;
+
+/**
+ * Signs a reconnect token for a seat, so whoever holds it can take the seat back after
+ * a dropped connection. Guests have no session, so this is all that ties them to a seat.
+ * Each WELCOME carries a fresh token, so a seat in use keeps one that has not expired.
+ * @param secret The secret to use for signing.
+ * @param gameId The game the seat is in.
+ * @param playerId The seat's player ID.
+ * @returns A promise that resolves to the token.
+ */
+export async function signSeatToken(secret: string, gameId: string, playerId: number): Promise<string> {
+  return signSession(`${secret}:seat`, { sub: `${gameId}:${playerId}`, iat: Date.now() });
+}
+
+/**
+ * Checks a reconnect token for a game.
+ * @param secret The secret to use for verification.
+ * @param gameId The game the token must be for.
+ * @param token The token.
+ * @returns A promise that resolves to the seat's player ID if the token is valid and recent, otherwise undefined.
+ */
+export async function verifySeatToken(secret: string, gameId: string, token: string): Promise<number | undefined> {
+  const sess = await verifySession(`${secret}:seat`, token);
+  if (!sess?.sub || Date.now() - sess.iat > SEAT_TOKEN_MAX_AGE_MS) return undefined;
+  const [id, seat] = sess.sub.split(':');
+  if (id !== gameId || !/^\d+$/.test(seat ?? '')) return undefined;
+  return Number(seat);
+}
+
 /**
  * Generates a `Set-Cookie` header string with cross-domain support.
  * @param name The name of the cookie.
@@ -20,14 +20,295 @@ export interface Player {
   email?: string;
   modelId?: string;
   personality?: string;
+  /** How well the AI plays the seat: always for AI players, while on autopilot for humans. Medium if unset. */
+  aiDifficulty?: AiDifficulty;
+  /** When the player's last connection closed; unset while they are connected. */
+  disconnectedAt?: number;
+  /** When the player last took a game action. */
+  lastActiveAt?: number;
+  /** Chess-clock time left, as of when the player's clock last stopped (the full budget if unset). */
+  clockMs?: number;
+  /** An AI plays the seat until the player reconnects or acts again. */
+  autopilot?: boolean;
 }
 
+export type AiDifficulty = 'easy' | 'medium' | 'hard';
+
 // WebSocket message type
 export interface WebSocketMessage {
   action: string;
   payload?: any;
 }
 
+// House rules configured by the host before the first roll
+export interface GameRules {
+  /** Cash each player starts with. */
+  startingCash: number;
+  /** Salary collected when passing GO. */
+  goSalary: number;
+  /** Collect double salary when landing exactly on GO. */
+  doubleSalaryOnGo: boolean;
+  /** Taxes and fees go into a pot collected by whoever lands on Free Parking. */
+  freeParkingJackpot: boolean;
+  /** Auction declined or unaffordable properties. When off, they stay with the bank. */
+  auctions: boolean;
+  /**
+   * How properties are auctioned: open outcry, or one sealed bid each where the highest
+   * bidder pays their own bid (first price) or the runner-up's (second price, Vickrey).
+   */
+  auctionMode: AuctionMode;
+  /** How long an auction stays open, in milliseconds. */
+  auctionDurationMs: number;
+  /** Each bid must beat the highest bid by at least this much. */
+  auctionIncrement: number;
+  /** A bid with less than this long left resets the countdown to it (ms, 0 = never). */
+  auctionExtendMs: number;
+  /** How long a player who cannot cover a payment has to raise funds (ms). */
+  debtDeadlineMs: number;
+  /** How long a trade offer stays open before it expires (ms). */
+  tradeExpiryMs: number;
+  /** How long a disconnected player's seat waits for them before an AI plays it, in milliseconds. */
+  reconnectGraceMs: number;
+  /** How long the current player may go without acting before an AI plays their seat (ms, 0 = never). */
+  idleTimeoutMs: number;
+  /** Time each player has per turn (ms, 0 = unlimited). */
+  turnTimeLimitMs: number;
+  /** Chess-clock budget each player has for the whole game (ms, 0 = no chess clock). */
+  chessClockMs: number;
+  /** What the game does for a player who runs out of time, in the phase each applies to. */
+  timerActions: TimerAction[];
+  /** Players may give money or property without getting anything back (with the receiver's consent). */
+  giftsAllowed: boolean;
+  /** Fine to leave jail. */
+  jailFine: number;
+  /** Flat Income Tax amount. */
+  incomeTax: number;
+  /** Flat Luxury Tax amount. */
+  luxuryTax: number;
+  /** End the game after this many turns (0 = unlimited). The richest player wins. */
+  maxTurns: number;
+  /** End the game after this many minutes from the first roll (0 = unlimited). */
+  timeLimitMinutes: number;
+}
+
+export type AuctionMode = 'open' | 'sealed-first-price' | 'sealed-second-price';
+
+/**
+ * What the game does for a player out of time: roll for them (before the roll, also
+ * in jail), decline the property they landed on, or end their turn after the roll.
+ */
+export type TimerAction = 'auto-roll' | 'auto-decline-purchase' | 'auto-end-turn';
+
+// The current player's time this turn. It runs only while the game waits on them,
+// not during auctions, debts or trade windows
+export interface TurnClock {
+  /** When the clock last started; unset while it is stopped. */
+  runningSince?: number;
+  /** Time used this turn before `runningSince`. */
+  usedMs: number;
+  /** The phase in which the game could not move an out-of-time player on; it waits on them until the phase changes. */
+  stalledPhase?: TurnPhase;
+}
+
+// Seeded dice/deck generator; the seed is kept secret until the game ends
+export interface RngState {
+  /** Secret seed (hex). Only sent to clients once revealed. */
+  seed: string;
+  /** Number of draws taken from the stream so far. */
+  cursor: number;
+  /** SHA-256 of the seed, published from the start of the game. */
+  commitment: string;
+  /** Whether the seed has been revealed. */
+  revealed: boolean;
+}
+
+// Authoritative game events recorded in the `game_events` table
+export type GameEventType =
+  | 'join'
+  | 'rollDice'
+  | 'buyProperty'
+  | 'declineToBuyProperty'
+  | 'endTurn'
+  | 'giveMoney'
+  | 'transferProperty'
+  | 'addNPC'
+  | 'start-game'
+  | 'addLocalPlayers'
+  | 'setRules'
+  | 'buildHouse'
+  | 'sellHouse'
+  | 'mortgage'
+  | 'unmortgage'
+  | 'proposeTrade'
+  | 'acceptTrade'
+  | 'rejectTrade'
+  | 'startAuction'
+  | 'placeBid'
+  | 'auctionDeadline'
+  | 'rollbackToTurn'
+  | 'payDebt'
+  | 'declareBankruptcy'
+  | 'debtDeadline'
+  | 'payJailFine'
+  | 'useJailCard'
+  | 'resolveMortgage'
+  | 'counterTrade'
+  | 'tradeExpiry'
+  | 'passAuction';
+
+export interface GameEvent {
+  /** Monotonic sequence number within the game. */
+  seq: number;
+  type: GameEventType;
+  /** The player who sent the action, if any (system events have none). */
+  actorId?: number;
+  /** The action payload as received. */
+  payload?: any;
+  /** When the event was recorded (ms since epoch). */
+  ts: number;
+}
+
+/**
+ * The phases of a turn (see src/phases.ts for the transitions and allowed actions).
+ * - pre-roll: the current player must roll (again, after doubles).
+ * - jail-decision: the current player starts the turn in jail.
+ * - resolve-landing: the player must buy or decline the unowned property they landed on.
+ * - debt-resolution: a player owes more than they hold and must raise funds, or must settle
+ *   a mortgaged property they received.
+ * - auction: a property, or a house or hotel the bank is short of, is being auctioned.
+ * - trade-window: the turn is paused while a trade the current player proposed is answered.
+ * - post-roll: the roll is settled; the player may manage properties and must end the turn.
+ */
+export type TurnPhase =
+  | 'pre-roll'
+  | 'jail-decision'
+  | 'resolve-landing'
+  | 'debt-resolution'
+  | 'auction'
+  | 'trade-window'
+  | 'post-roll';
+
+/**
+ * A payment a player could not cover in cash. The debtor raises funds during the
+ * debt-resolution phase and then pays or declares bankruptcy.
+ */
+export interface Debt {
+  debtorId: number;
+  /** The player owed, or undefined when the debt is owed to the bank. */
+  creditorId?: number;
+  amount: number;
+  /** Whether the payment feeds the Free Parking jackpot once paid. */
+  toPot?: boolean;
+  /** After this time (ms since epoch) the debt is settled automatically. */
+  deadline: number;
+}
+
+// One side of a trade: what a player gives up
+export interface TradeSide {
+  money: number;
+  properties: number[];
+  /** Number of Get Out of Jail Free cards. */
+  jailCards: number;
+}
+
+export type TradeStatus = 'open' | 'accepted' | 'rejected' | 'withdrawn' | 'countered' | 'expired' | 'failed';
+
+// One leg of a trade: what one player hands to another
+export interface TradeLeg extends TradeSide {
+  fromId: number;
+  toId: number;
+}
+
+// A trade proposal between two or more players. It executes once every participant
+// has accepted, all legs at once or none of them
+export interface Trade {
+  id: string;
+  initiatorId: number;
+  /** Every player giving or receiving in some leg, the initiator included. */
+  participants: number[];
+  legs: TradeLeg[];
+  /** Participants who have accepted; the initiator accepts by proposing. */
+  acceptedBy: number[];
+  /** The trade this one counters, if it is a counter-offer. */
+  parentId?: string;
+  status: TradeStatus;
+  createdAt: number;
+  /** Open trades expire at this time (ms since epoch). */
+  expiresAt: number;
+  closedAt?: number;
+  /** Why a trade failed when it was accepted. */
+  reason?: string;
+}
+
+// A mortgaged property that changed hands: the new owner must pay the bank's 10%
+// interest and keep the mortgage, or lift it straight away
+export interface MortgageObligation {
+  playerId: number;
+  squareId: number;
+  /** After this time the interest is charged and the mortgage kept. */
+  deadline: number;
+}
+
+// What a log entry is about. Clients render known types in their own language and
+// fall back to the entry's English text for the rest
+export type LogType =
+  | 'game'
+  | 'join'
+  | 'rules'
+  | 'roll'
+  | 'move'
+  | 'pass-go'
+  | 'jail'
+  | 'jail-release'
+  | 'tax'
+  | 'card'
+  | 'jackpot'
+  | 'buy'
+  | 'rent'
+  | 'build'
+  | 'sell-building'
+  | 'mortgage'
+  | 'unmortgage'
+  | 'debt'
+  | 'payment'
+  | 'bankruptcy'
+  | 'turn'
+  | 'win'
+  | 'trade'
+  | 'auction'
+  | 'bid'
+  | 'auction-won'
+  | 'connection'
+  | 'timer'
+  | 'refused';
+
+// One line of the game log
+export interface LogEntry {
+  /** Numbers entries from 1 across the whole game; the paging cursor. */
+  seq: number;
+  ts: number;
+  turn: number;
+  type: LogType;
+  /** The player the entry is about. */
+  actorId?: number;
+  /** Squares the entry mentions, the main one first. */
+  squareIds?: number[];
+  /** The money involved. */
+  amount?: number;
+  /** Anything else a translation needs, such as the other player or the dice. */
+  params?: Record<string, string | number>;
+  /** The AI made this move in a human's seat (see Player.autopilot). */
+  autopilot?: boolean;
+  /** The entry in English. */
+  text: string;
+}
+
+// Houses and hotels the bank has left to sell
+export interface BuildingStock {
+  houses: number;
+  hotels: number;
+}
+
 // Game state type
 export interface GameState {
   gameId: string;
@@ -39,8 +320,31 @@ export interface GameState {
   dice: [number, number];
   doublesCount: number;
   turn: number;
-  turnState?: 'rolling' | 'acting' | 'ended' | 'LandedOnUnownedProperty' | 'AuctionInProgress';
-  log: string[];
+  phase: TurnPhase;
+  /** Phases paused by an interruption (trade window, debt), innermost last. */
+  pausedPhases?: TurnPhase[];
+  /** Payments waiting on their debtors (see the debt-resolution phase). */
+  debts?: Debt[];
+  /** Mortgaged properties whose new owners have not yet chosen how to settle them. */
+  mortgageObligations?: MortgageObligation[];
+  /** The bank's remaining houses and hotels. */
+  bank: BuildingStock;
+  /** The latest log entries, oldest first. Older ones are archived (see log.ts). */
+  log: LogEntry[];
+  /** Sequence number of the last log entry. */
+  logSeq?: number;
+  rules: GameRules;
+  rng: RngState;
+  /** Sequence number of the last recorded game event. */
+  eventSeq: number;
+  freeParkingPot?: number;
+  startedAt?: number;
+  /** When the current turn began. */
+  turnStartedAt?: number;
+  /** The current player's time this turn (see timers.ts). */
+  turnClock?: TurnClock;
+  /** Set while the AIs wait for a player to come back, so the pause is logged once. */
+  awaitingPlayers?: boolean;
   chat?: Array<{
     id: string;
     playerId?: number;
@@ -53,21 +357,19 @@ export interface GameState {
   hostPlayerId?: number;
   status?: 'open' | 'finished';
   winnerId?: number;
-  trade?: {
-    initiatorId: number;
-    recipientId: number;
-    offer: {
-      money: number;
-      properties: number[];
-      jailCards: number;
-    };
-    request: {
-      money: number;
-      properties: number[];
-      jailCards: number;
-    };
-  };
+  /** Trades waiting for an answer, keyed by their `id`. */
+  trades?: Trade[];
+  /** Every closed trade, oldest first. */
+  tradeHistory?: Trade[];
+  /** Counter used to number trades. */
+  tradeSeq?: number;
   auction?: {
+    /** A property auction, or a building auction held when the bank is short. */
+    kind?: 'property' | 'building';
+    /** For building auctions, the building on offer. */
+    building?: 'house' | 'hotel';
+    /** For building auctions, the lot each bidder will build on if they win. */
+    targets?: Record<number, number>;
     squareId: number;
     propertyToAuction: Square;
     bids: Array<{ playerId: number; amount: number }>;
@@ -75,6 +377,21 @@ export interface GameState {
     highestBidderId?: number;
     currentPlayerId: number;
     endTime: number;
+    /** Players taking part. Stored auctions without it are open to every active player. */
+    bidders?: number[];
+    /** Bidders who have passed; they may not bid again. */
+    passed?: number[];
+    /** When the next AI bidder is asked for a bid. */
+    aiBidAt?: number;
+    /** The AI bidder asked last, so AI bidders take turns. */
+    lastAiBidderId?: number;
+    /**
+     * For sealed-bid auctions, who pays what. Bids stay hidden from other players, and
+     * highestBid is only set, until the reveal.
+     */
+    sealed?: 'first-price' | 'second-price';
+    /** For sealed-bid auctions, the last event recorded before bidding opened. */
+    sealedAfterSeq?: number;
   };
 }
 
@@ -110,7 +427,15 @@ export type CardAction =
   | 'pay-all'
   | 'advance'
   | 'go-to-jail'
-  | 'get-out-of-jail-free';
+  | 'get-out-of-jail-free'
+  // Move to the next railroad; an owner is paid `value` times the normal rent
+  | 'advance-nearest-railroad'
+  // Move to the next utility; an owner is paid `value` times a fresh dice throw
+  | 'advance-nearest-utility'
+  // Move back `value` spaces
+  | 'go-back'
+  // Pay `perHouse` for each house and `perHotel` for each hotel owned
+  | 'repairs';
 
 export interface Square {
   id: number;
@@ -131,6 +456,12 @@ export interface Card {
   text: string;
   action: CardAction;
   value: number;
+  /** Whether a move made by this card pays the GO salary when passing GO (default true). */
+  collectGo?: boolean;
+  /** Cost per house for repair cards. */
+  perHouse?: number;
+  /** Cost per hotel for repair cards. */
+  perHotel?: number;
 }
 
 /**
@@ -460,13 +791,18 @@ export const chanceCards: Omit<Card, 'id' | 'deck'>[] = [
   },
   {
     text: 'Advance token to nearest Utility. If unowned, you may buy it from the Bank. If owned, throw dice and pay owner a total ten times the amount thrown.',
-    action: 'collect',
-    value: 0, // Special handling needed
+    action: 'advance-nearest-utility',
+    value: 10,
   },
   {
     text: 'Advance token to the nearest Railroad and pay owner twice the rental to which he/she is otherwise entitled. If Railroad is unowned, you may buy it from the Bank.',
-    action: 'collect',
-    value: 0, // Special handling needed
+    action: 'advance-nearest-railroad',
+    value: 2,
+  },
+  {
+    text: 'Advance token to the nearest Railroad and pay owner twice the rental to which he/she is otherwise entitled. If Railroad is unowned, you may buy it from the Bank.',
+    action: 'advance-nearest-railroad',
+    value: 2,
   },
   {
     text: 'Bank pays you dividend of $50.',
@@ -480,8 +816,9 @@ export const chanceCards: Omit<Card, 'id' | 'deck'>[] = [
   },
   {
     text: 'Go Back 3 Spaces.',
-    action: 'collect',
-    value: -3, // Special handling needed
+    action: 'go-back',
+    value: 3,
+    collectGo: false,
   },
   {
     text: 'Go to Jail. Go directly to Jail. Do not pass GO, do not collect $200.',
@@ -490,8 +827,10 @@ export const chanceCards: Omit<Card, 'id' | 'deck'>[] = [
   },
   {
     text: 'Make general repairs on all your property. For each house pay $25. For each hotel $100.',
-    action: 'collect',
-    value: 0, // Special handling needed
+    action: 'repairs',
+    value: 0,
+    perHouse: 25,
+    perHotel: 100,
   },
   {
     text: 'Pay poor tax of $15.',
@@ -518,11 +857,6 @@ export const chanceCards: Omit<Card, 'id' | 'deck'>[] = [
     action: 'collect',
     value: 150,
   },
-  {
-    text: 'You have won a crossword competition. Collect $100.',
-    action: 'collect',
-    value: 100,
-  },
 ];
 
 /**
@@ -601,8 +935,10 @@ export const communityChestCards: Omit<Card, 'id' | 'deck'>[] = [
   },
   {
     text: 'You are assessed for street repairs. $40 per house. $115 per hotel.',
-    action: 'collect',
-    value: 0, // Special handling needed
+    action: 'repairs',
+    value: 0,
+    perHouse: 40,
+    perHotel: 115,
   },
   {
     text: 'You have won second prize in a beauty contest. Collect $10.',
@@ -0,0 +1,100 @@
+/**
+ * Building rules: even development across a color group and the bank's finite supply
+ * of houses and hotels. A square's `houses` counts 1-4 houses, and 5 means a hotel.
+ */
+
+import { BuildingStock, Square } from './board-data';
+
+/** Houses the bank holds at the start of a game. */
+export const BANK_HOUSES = 32;
+
+/** Hotels the bank holds at the start of a game. */
+export const BANK_HOTELS = 12;
+
+/** The `houses` value that stands for a hotel. */
+export const HOTEL = 5;
+
+/**
+ * Works out the bank's stock from the buildings already on the board.
+ * Used for games stored before the bank kept an inventory.
+ * @param squares The board.
+ * @returns The houses and hotels still in the bank.
+ */
+export function bankStockFromBoard(squares: Square[]): BuildingStock {
+  let houses = BANK_HOUSES;
+  let hotels = BANK_HOTELS;
+  for (const sq of squares) {
+    const level = sq.houses || 0;
+    if (level === HOTEL) hotels--;
+    else houses -= level;
+  }
+  return { houses: Math.max(0, houses), hotels: Math.max(0, hotels) };
+}
+
+/**
+ * The squares of a property's color group.
+ * @param squares The board.
+ * @param square A property in the group.
+ */
+function groupOf(squares: Square[], square: Square): Square[] {
+  return squares.filter(s => s.type === 'property' && s.group === square.group);
+}
+
+/**
+ * The building the next step up on a square needs from the bank.
+ * @param square The property.
+ * @returns 'hotel' when the square has four houses, otherwise 'house'.
+ */
+export function nextBuilding(square: Square): 'house' | 'hotel' {
+  return (square.houses || 0) === HOTEL - 1 ? 'hotel' : 'house';
+}
+
+/**
+ * Checks whether an owner may add a building to a square under the even-build rule:
+ * they hold the whole group with nothing mortgaged, and no lot in the group has fewer
+ * buildings than this one.
+ * @param squares The board.
+ * @param square The property to build on.
+ * @param ownerId The player building.
+ * @returns The reason building is not allowed, or null if it is.
+ */
+export function buildError(squares: Square[], square: Square, ownerId: number): string | null {
+  if (square.type !== 'property' || !square.group) return 'it cannot be built on';
+  const group = groupOf(squares, square);
+  if (!group.every(s => s.ownerId === ownerId)) return `the whole ${square.group} group must be owned first`;
+  if (group.some(s => s.mortgaged)) return `the ${square.group} group has a mortgaged property`;
+  const level = square.houses || 0;
+  if (level >= HOTEL) return 'it already has a hotel';
+  if (group.some(s => (s.houses || 0) < level)) return `build evenly: the rest of the ${square.group} group needs more houses first`;
+  return null;
+}
+
+/**
+ * Checks whether an owner may remove a building from a square under the even-sell rule:
+ * no lot in the group has more buildings than this one.
+ * @param squares The board.
+ * @param square The property to sell from.
+ * @param ownerId The player selling.
+ * @returns The reason selling is not allowed, or null if it is.
+ */
+export function sellError(squares: Square[], square: Square, ownerId: number): string | null {
+  if (square.type !== 'property' || square.ownerId !== ownerId) return 'it is not theirs';
+  const level = square.houses || 0;
+  if (level <= 0) return 'it has no buildings';
+  if (groupOf(squares, square).some(s => (s.houses || 0) > level)) return `sell evenly: the most developed lots in the ${square.group} group go first`;
+  return null;
+}
+
+/**
+ * Counts how many players could take the given building from the bank right now.
+ * The bank is short when this exceeds its stock.
+ * @param squares The board.
+ * @param ownerIds The players to consider.
+ * @param building The building type.
+ * @returns The number of players with at least one lot that may take it.
+ */
+export function buildingDemand(squares: Square[], ownerIds: number[], building: 'house' | 'hotel'): number {
+  return ownerIds.filter(id => squares.some(s =>
+    s.ownerId === id && nextBuilding(s) === building && buildError(squares, s, id) === null
+  )).length;
+}
@@ -1,3 +1,5 @@
+import { GameEvent, GameState } from './board-data';
+
 /**
  * Initializes the core database schema for the application.
  * This includes tables for users, sessions, and games.
@@ -154,6 +156,80 @@ export async function initApp(DB: D1Database) {
   }
 }
 
+/**
+ * Appends game events to the event log (binding: DB).
+ * Events already stored under the same (game_id, seq) are skipped, so retries are safe.
+ * @param DB The D1 database instance for app data.
+ * @param gameId The ID of the game.
+ * @param events The events to append, in sequence order.
+ * @returns A promise that resolves when the events have been written.
+ */
+export async function appendGameEvents(DB: D1Database, gameId: string, events: GameEvent[]) {
+  if (events.length === 0) return;
+  const stmt = DB.prepare('INSERT OR IGNORE INTO game_events (game_id, seq, type, payload_json) VALUES (?, ?, ?, ?)');
+  await DB.batch(events.map(e => stmt.bind(
+    gameId,
+    e.seq,
+    e.type,
+    JSON.stringify({ actorId: e.actorId, payload: e.payload, ts: e.ts })
+  )));
+}
+
+/**
+ * Lists a game's events in sequence order.
+ * @param DB The D1 database instance for app data.
+ * @param gameId The ID of the game.
+ * @param afterSeq Only return events with a greater sequence number.
+ * @param limit The maximum number of events to return.
+ * @returns A promise that resolves to the ordered events.
+ */
+export async function listGameEvents(DB: D1Database, gameId: string, afterSeq = 0, limit = 1000): Promise<GameEvent[]> {
+  const res = await DB.prepare('SELECT seq, type, payload_json FROM game_events WHERE game_id=? AND seq>? ORDER BY seq ASC LIMIT ?')
+    .bind(gameId, afterSeq, limit).all();
+  return (res.results || []).map((row: any) => {
+    const data = row.payload_json ? JSON.parse(row.payload_json) : {};
+    return { seq: row.seq, type: row.type, actorId: data.actorId, payload: data.payload, ts: data.ts };
+  });
+}
+
+/**
+ * Stores a full copy of a game's state for the given turn (binding: DB).
+ * A later snapshot of the same turn replaces the earlier one.
+ * @param DB The D1 database instance for app data.
+ * @param gameId The ID of the game.
+ * @param turn The turn the snapshot was taken at.
+ * @param state The full game state.
+ * @returns A promise that resolves when the snapshot has been written.
+ */
+export async function saveGameSnapshot(DB: D1Database, gameId: string, turn: number, state: GameState) {
+  await DB.prepare('INSERT OR REPLACE INTO game_snapshots (id, game_id, turn, state_json, created_at) VALUES (?, ?, ?, ?, datetime("now"))')
+    .bind(`${gameId}:${turn}`, gameId, turn, JSON.stringify(state)).run();
+}
+
+/**
+ * Loads the latest snapshot taken at or before a turn.
+ * @param DB The D1 database instance for app data.
+ * @param gameId The ID of the game.
+ * @param turn The latest turn to consider.
+ * @returns A promise that resolves to the snapshot, or null if there is none.
+ */
+export async function loadGameSnapshot(DB: D1Database, gameId: string, turn: number): Promise<{ turn: number; state: GameState } | null> {
+  const row: any = await DB.prepare('SELECT turn, state_json FROM game_snapshots WHERE game_id=? AND turn<=? ORDER BY turn DESC LIMIT 1')
+    .bind(gameId, turn).first();
+  return row ? { turn: row.turn, state: JSON.parse(row.state_json) } : null;
+}
+
+/**
+ * Lists the turns a game has snapshots for.
+ * @param DB The D1 database instance for app data.
+ * @param gameId The ID of the game.
+ * @returns A promise that resolves to the turns, in ascending order.
+ */
+export async function listGameSnapshotTurns(DB: D1Database, gameId: string): Promise<number[]> {
+  const res = await DB.prepare('SELECT turn FROM game_snapshots WHERE game_id=? ORDER BY turn ASC').bind(gameId).all();
+  return (res.results || []).map((row: any) => row.turn);
+}
+
 /**
  * Ensures a user exists in the database with the given username.
  * If the user does not exist, a new user is created.
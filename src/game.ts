@@ -1,15 +1,87 @@
-import { GameState, WebSocketMessage, Player } from './types';
-import { Square, Card, squares as squareData, chanceCards as chanceCardData, communityChestCards as communityChestCardData } from './board-data';
+import { GameState, WebSocketMessage, Player, TurnPhase, Debt, MortgageObligation, Trade, TradeLeg, TradeStatus } from './types';
+import { Square, Card, GameEvent, GameEventType, LogEntry, LogType, RngState, squares as squareData, chanceCards as chanceCardData, communityChestCards as communityChestCardData } from './board-data';
+import { DEFAULT_RULES, normalizeRules, describeRules } from './rules';
+import { createRng, rollDie, shuffleWith, verifySeed } from './rng';
+import { appendGameEvents, listGameEvents, saveGameSnapshot, loadGameSnapshot, listGameSnapshotTurns, findUserByEmailOrUsername } from './db';
+import { VERIFIED_USER_HEADER, signSeatToken, verifySeatToken, verifyVerifiedUser } from './auth';
+import { createReplayState, summarizeState } from './replay';
+import { PhaseError, assertActionAllowed, assertTransition, migrateTurnState } from './phases';
+import { MonopolyAI } from './ai-agent';
+import { calculateRent, rentTable } from './rent';
+import { BANK_HOTELS, BANK_HOUSES, HOTEL, bankStockFromBoard, buildError, buildingDemand, nextBuilding, sellError } from './buildings';
+import { giftGivers, legsFromOffer, migrateTrade, normalizeTradeLegs, normalizeTradeSide, tradeBalance, tradeLegsError, tradeParticipants, tradeSideError } from './trades';
+import { StateView, projectAuction, projectEvents, projectState } from './views';
+import { diffJson } from './patch';
+import { LOG_PAGE_LIMIT, LogDetails, appendLog, logArchiveKey, migrateLog, takeLogOverflow } from './log';
+import { EXPIRY_EVENTS, TIMED_PHASES, expiredTimer, expiryAction, markTimerStalled, resetTurnClock, syncTurnClock, timerDeadline, timersView } from './timers';
 
 /**
- * Shuffles an array in place.
- * @param array The array to shuffle.
+ * WebSocket actions that change game state and are recorded in the event log.
+ * Chat, heartbeats and video signaling are deliberately left out.
  */
-function shuffle(array: any[]) {
-  for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [array[i], array[j]] = [array[j], array[i]];
-  }
+const RECORDED_ACTIONS: ReadonlySet<string> = new Set<GameEventType>([
+  'rollDice', 'buyProperty', 'declineToBuyProperty', 'endTurn', 'giveMoney', 'transferProperty',
+  'addNPC', 'start-game', 'addLocalPlayers', 'setRules', 'buildHouse', 'sellHouse', 'mortgage',
+  'unmortgage', 'proposeTrade', 'counterTrade', 'acceptTrade', 'rejectTrade', 'startAuction', 'placeBid',
+  'passAuction',
+  'payDebt', 'declareBankruptcy', 'payJailFine', 'useJailCard', 'resolveMortgage',
+]);
+
+/** Log entries about a seat rather than its moves, never marked as the autopilot's. */
+const UNFLAGGED_LOG_TYPES: ReadonlySet<LogType> = new Set<LogType>(['connection', 'timer', 'turn']);
+
+/** What a game socket remembers across hibernation. */
+interface SocketAttachment {
+  /** The seat the socket plays; unset for spectators. */
+  playerId?: number;
+  /** The username the Worker verified from the SESSION cookie; unset for guests. */
+  user?: string;
+}
+
+/** How long AI bidders wait before answering the last bid, in milliseconds. */
+const AI_BID_DELAY_MS = 1500;
+
+/** A full copy of the state is stored in `game_snapshots` every this many turns. */
+const SNAPSHOT_INTERVAL_TURNS = 5;
+
+/**
+ * Builds the state of a brand-new game.
+ * Decks are shuffled from the given generator, so the same seed always yields the same game.
+ * @param gameId The ID of the game.
+ * @param rng The generator to shuffle with (its cursor is advanced).
+ * @returns The initial game state.
+ */
+function createInitialState(gameId: string, rng: RngState): GameState {
+  const squares = squareData.map((s, i) => ({ ...s, id: i }));
+
+  const chanceDeck = Array.from({ length: chanceCardData.length }, (_, i) => i);
+  shuffleWith(rng, chanceDeck);
+
+  const communityChestDeck = Array.from({ length: communityChestCardData.length }, (_, i) => i);
+  shuffleWith(rng, communityChestDeck);
+
+  const state: GameState = {
+    gameId,
+    players: [],
+    squares: squares,
+    chanceDeck: chanceDeck,
+    communityChestDeck: communityChestDeck,
+    currentPlayerId: 0,
+    dice: [0, 0],
+    doublesCount: 0,
+    turn: 0,
+    phase: 'pre-roll',
+    bank: { houses: BANK_HOUSES, hotels: BANK_HOTELS },
+    log: [],
+    logSeq: 0,
+    rules: { ...DEFAULT_RULES },
+    rng,
+    eventSeq: 0,
+    freeParkingPot: 0,
+    chat: [],
+  };
+  appendLog(state, Date.now(), 'game', 'Game created! Waiting for players...');
+  return state;
 }
 
 /**
@@ -19,10 +91,25 @@ function shuffle(array: any[]) {
 export class Game implements DurableObject {
   state: DurableObjectState;
   env: Env;
-  sessions: WebSocket[] = [];
   gameState?: GameState;
-  playerIds: Map<WebSocket, number> = new Map();
   videoActivePlayerIds: Set<number> = new Set();
+  /** Events recorded but not yet written to D1. */
+  pendingEvents: GameEvent[] = [];
+  /** Time of the message or alarm being handled; every rule that depends on time reads this. */
+  clock?: number;
+  /** True while re-simulating from the event log: no recording, no AI turns. */
+  replaying = false;
+  /** Version of the last state broadcast. Restarts with the object; clients then resync. */
+  stateVersion = 0;
+  /** The view each session was last sent, and its version, to diff the next one against. */
+  sentViews: Map<WebSocket, { version: number; view: any }> = new Map();
+
+  /**
+   * The connected sockets. The runtime holds them, so they survive hibernation.
+   */
+  get sessions(): WebSocket[] {
+    return this.state.getWebSockets();
+  }
 
   /**
    * Creates a new Game instance.
@@ -42,34 +129,67 @@ export class Game implements DurableObject {
     this.gameState = await this.state.storage.get<GameState>('gameState');
     if (!this.gameState) {
       console.log('Initializing new game state...');
-
-      const squares = squareData.map((s, i) => ({ ...s, id: i }));
-
-      const chanceDeck = Array.from({ length: chanceCardData.length }, (_, i) => i);
-      shuffle(chanceDeck);
-
-      const communityChestDeck = Array.from({ length: communityChestCardData.length }, (_, i) => i);
-      shuffle(communityChestDeck);
-
-      this.gameState = {
-        gameId: this.state.id.toString(),
-        players: [],
-        squares: squares,
-        chanceDeck: chanceDeck,
-        communityChestDeck: communityChestDeck,
-        currentPlayerId: 0,
-        dice: [0, 0],
-        doublesCount: 0,
-        turn: 0,
-        turnState: 'rolling',
-        log: ['Game created! Waiting for players...'],
-        chat: [],
-      };
+      this.gameState = createInitialState(this.state.id.toString(), await createRng());
+    } else {
+      // Games stored before house rules existed get the standard rules
+      this.gameState.rules = normalizeRules(this.gameState.rules);
+      // Games stored before seeded dice existed get a fresh generator
+      if (!this.gameState.rng) this.gameState.rng = await createRng();
+      if (this.gameState.eventSeq === undefined) this.gameState.eventSeq = 0;
+      // Games stored before the log was structured get their lines as plain entries
+      migrateLog(this.gameState);
+      migrateTurnState(this.gameState);
+      // Games stored before the bank kept an inventory get it from the board
+      if (!this.gameState.bank) this.gameState.bank = bankStockFromBoard(this.gameState.squares);
+      // Trades stored as a two-player offer and request get legs
+      this.gameState.trades?.forEach(migrateTrade);
+      this.gameState.tradeHistory?.forEach(migrateTrade);
+      // Games stored with a single pending trade drop it, as it was never validated
+      if ((this.gameState as any).trade) {
+        delete (this.gameState as any).trade;
+        if (this.gameState.phase === 'trade-window') this.resumePhase();
+      }
     }
+    // Events that could not be written to D1 before the object was evicted
+    this.pendingEvents = (await this.state.storage.get<GameEvent[]>('eventOutbox')) || [];
   }
 
   async alarm() {
-    await this.checkAuctionDeadline();
+    if (!this.gameState) await this.initialize();
+    if (!this.gameState) return;
+    this.clock = Date.now();
+    let changed = false;
+    if (this.gameState.auction && this.now() >= (this.gameState.auction.aiBidAt ?? Infinity)) {
+      // An AI pass may close the auction; its own event covers that
+      await this.aiAuctionTurn();
+      if (!this.gameState.auction) changed = true;
+    }
+    if (this.gameState.auction) {
+      await this.checkAuctionDeadline();
+      if (!this.gameState.auction) {
+        this.recordEvent('auctionDeadline');
+        changed = true;
+      }
+    }
+    if (await this.checkDebtDeadlines()) {
+      this.recordEvent('debtDeadline');
+      changed = true;
+    }
+    if (this.checkTradeExpiry()) {
+      this.recordEvent('tradeExpiry');
+      changed = true;
+    }
+    // Not an event: the AI's moves for the seat are recorded as they are made
+    if (await this.startAutopilots()) changed = true;
+    // Likewise the moves made for a player out of time
+    if (await this.checkTurnTimers()) changed = true;
+    if (changed) {
+      // An AI whose turn was waiting on the auction or a debtor carries on
+      await this.openDebtResolution();
+      await this.continueAiTurn();
+      await this.updateAndBroadcast();
+    }
+    await this.scheduleAlarm();
   }
 
   async declineToBuyProperty(playerId: number) {
@@ -78,8 +198,8 @@ export class Game implements DurableObject {
     if (!player) return;
 
     const square = this.gameState.squares[player.position];
-    if (this.gameState.turnState === 'LandedOnUnownedProperty' && (square.type === 'property' || square.type === 'railroad' || square.type === 'utility') && square.ownerId === undefined) {
-      this.gameState.log.push(`${player.name} declined to buy ${square.name}. Starting auction.`);
+    if (this.gameState.phase === 'resolve-landing' && (square.type === 'property' || square.type === 'railroad' || square.type === 'utility') && square.ownerId === undefined) {
+      this.addLog('buy', `${player.name} declined to buy ${square.name}.${this.gameState.rules.auctions ? ' Starting auction.' : ''}`, { actorId: player.id, squareIds: [square.id], params: { variant: 'declined' } });
       await this.startAuction(square.id);
     }
   }
@@ -105,7 +225,11 @@ export class Game implements DurableObject {
       const webSocketPair = new WebSocketPair();
       const { 0: client, 1: server } = webSocketPair;
 
-      this.handleSession(server);
+      // Hibernatable: the object may be evicted while the socket stays open
+      this.state.acceptWebSocket(server);
+      const verified = request.headers.get(VERIFIED_USER_HEADER);
+      const user = verified ? await verifyVerifiedUser(this.authSecret(), verified) : undefined;
+      server.serializeAttachment({ user } satisfies SocketAttachment);
 
       return new Response(null, {
         status: 101,
@@ -113,64 +237,440 @@ export class Game implements DurableObject {
       });
     }
 
-    return new Response(JSON.stringify(this.gameState, null, 2), {
+    if (url.pathname.endsWith('/fairness')) {
+      const rng = this.gameState!.rng;
+      return new Response(JSON.stringify({
+        commitment: rng.commitment,
+        draws: rng.cursor,
+        revealed: rng.revealed,
+        seed: rng.revealed ? rng.seed : undefined,
+        valid: rng.revealed ? await verifySeed(rng.seed, rng.commitment) : undefined,
+      }, null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname.endsWith('/replay')) {
+      return this.handleReplayRequest(request, url);
+    }
+
+    if (url.pathname.endsWith('/rent-table')) {
+      return new Response(JSON.stringify({ squares: rentTable(this.gameState!.squares) }, null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname.endsWith('/log')) {
+      const before = Number(url.searchParams.get('before')) || (this.gameState!.logSeq ?? 0) + 1;
+      const limit = Math.min(LOG_PAGE_LIMIT, Math.max(1, Math.floor(Number(url.searchParams.get('limit')) || 50)));
+      return new Response(JSON.stringify(await this.logPage(before, limit), null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname.endsWith('/snapshots')) {
+      const turns = this.env.DB ? await listGameSnapshotTurns(this.env.DB, this.gameState!.gameId) : [];
+      return new Response(JSON.stringify({ turns }, null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname.endsWith('/rollback') && request.method === 'POST') {
+      if (!this.isAdmin(request)) {
+        return new Response(JSON.stringify({ error: 'unauthorized' }), { status: 401, headers: { 'Content-Type': 'application/json' } });
+      }
+      this.clock = Date.now();
+      const restored = await this.restoreSnapshot(Number(url.searchParams.get('turn')), 'an admin');
+      if (restored !== null) await this.updateAndBroadcast();
+      return new Response(JSON.stringify({ ok: restored !== null, turn: restored }), {
+        status: restored !== null ? 200 : 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(this.publicState(), null, 2), {
       headers: { 'Content-Type': 'application/json' },
     });
   }
 
   /**
-   * Handles a new WebSocket session.
-   * @param ws The WebSocket connection.
+   * Whether a request carries the admin key (the same key as /admin/db/init).
+   * @param request The request.
    */
-  handleSession(ws: WebSocket) {
-    this.sessions.push(ws);
+  isAdmin(request: Request): boolean {
+    const key = request.headers.get('x-admin-key') || '';
+    return !!key && key === this.authSecret();
+  }
 
-    ws.addEventListener('message', async (msg) => {
+  /**
+   * Serves the event log and, on request, the state rebuilt from it.
+   * `?seq=N` or `?turn=T` replays up to that point; `?verify=1` replays the whole log
+   * and compares the result with the snapshot stored in `games.state_json`.
+   * While the game is on, the log is projected like the state (see views.ts) and
+   * replays, which run the whole log, need the admin key.
+   * @param request The request, for the admin key.
+   * @param url The request URL.
+   * @returns A promise that resolves to a JSON Response.
+   */
+  async handleReplayRequest(request: Request, url: URL): Promise<Response> {
+    const gameState = this.gameState!;
+    const seq = url.searchParams.get('seq');
+    const turn = url.searchParams.get('turn');
+    const verify = url.searchParams.get('verify');
+    const admin = this.isAdmin(request);
+    if ((seq !== null || turn !== null || verify) && !admin && gameState.status !== 'finished') {
+      return new Response(JSON.stringify({ error: 'Replays of a game in progress need the admin key.' }), { status: 401, headers: { 'Content-Type': 'application/json' } });
+    }
+    await this.flushEvents();
+    const events = await this.loadEvents();
+    const body: any = { gameId: gameState.gameId, commitment: gameState.rng.commitment, events: admin ? events : projectEvents(events, gameState) };
+
+    if (seq !== null || turn !== null) {
+      const replayed = await Game.replay(gameState.gameId, gameState.rng, events, {
+        seq: seq !== null ? Number(seq) : undefined,
+        turn: turn !== null ? Number(turn) : undefined,
+      });
+      body.state = this.publicState(replayed);
+    }
+
+    if (verify) {
+      const actual = summarizeState(await Game.replay(gameState.gameId, gameState.rng, events));
+      let expected: any = null;
       try {
-        const message: WebSocketMessage = JSON.parse(msg.data as string);
-
-        if (message.action === 'join') {
-            await this.addPlayer(
-              ws,
-              message.payload.name,
-              message.payload.color,
-              message.payload.user,
-              message.payload.email,
-              message.payload.playerCount,
-              message.payload.isHost
-            );
-        } else {
-          const playerId = this.playerIds.get(ws);
-          if (playerId === undefined) {
-            ws.send(JSON.stringify({ error: 'Player not joined.' }));
+        const row: any = await this.env.monopolyd1.prepare('SELECT state_json FROM games WHERE id=?').bind(gameState.gameId).first();
+        expected = row?.state_json ? JSON.parse(row.state_json) : null;
+      } catch {}
+      body.verify = { matches: JSON.stringify(expected) === JSON.stringify(actual), expected, actual };
+    }
+
+    return new Response(JSON.stringify(body, null, 2), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Builds the copy of the game state that is safe to send to a client.
+   * @param state The state to expose (defaults to the live state).
+   * @param viewerId The seated player the copy is for, or undefined for spectators.
+   * @returns The viewer's projection of the state.
+   */
+  publicState(state: GameState | undefined = this.gameState, viewerId?: number): StateView | undefined {
+    if (!state) return undefined;
+    return projectState(state, viewerId);
+  }
+
+  /**
+   * Handles a message on a game socket. The runtime wakes the object from hibernation
+   * to deliver it, so the state may need loading first.
+   * @param ws The socket the message arrived on.
+   * @param data The raw message.
+   */
+  async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer) {
+    if (!this.gameState) await this.initialize();
+    try {
+      const message: WebSocketMessage = JSON.parse(data as string);
+      this.clock = Date.now();
+
+      if (message.action === 'resync') {
+        // The client missed a patch; spectators may ask too
+        this.sendFullState(ws);
+      } else if (message.action === 'rejoin') {
+        await this.rejoin(ws, message.payload?.token);
+      } else if (message.action === 'join') {
+          // Seats bind to the identity verified when the socket opened, never to one the client claims
+          const user = message.payload.guest ? undefined : this.verifiedUserOf(ws);
+          if (!user && !message.payload.guest) {
+            ws.send(JSON.stringify({ error: 'Sign in to take a seat, or join as a guest.' }));
             return;
           }
-          await this.dispatchAction(playerId, message);
+          await this.addPlayer(
+            ws,
+            message.payload.name,
+            message.payload.color,
+            user,
+            await this.emailOf(user),
+            message.payload.playerCount,
+            message.payload.isHost
+          );
+      } else {
+        const playerId = this.playerIdOf(ws);
+        if (playerId === undefined) {
+          ws.send(JSON.stringify({ error: 'Player not joined.' }));
+          return;
         }
+        await this.dispatchAction(playerId, message);
+      }
 
-      } catch (err) {
-        console.error('Error parsing WebSocket message:', err);
-        ws.send(JSON.stringify({ error: 'Invalid message format' }));
+    } catch (err) {
+      if (err instanceof PhaseError) {
+        ws.send(JSON.stringify({ error: err.message, code: err.code, phase: err.phase }));
+        return;
       }
-    });
+      console.error('Error parsing WebSocket message:', err);
+      ws.send(JSON.stringify({ error: 'Invalid message format' }));
+    }
+  }
 
-    const closeOrErrorHandler = () => {
-      const playerId = this.playerIds.get(ws);
-      if (playerId !== undefined) {
-          // Handle player disconnect logic if needed (e.g., mark as inactive)
-          console.log(`Player ${playerId} disconnected.`);
-          // Clean up video state if they had video active
-          if (this.videoActivePlayerIds.has(playerId)) {
-            this.handleVideoStopped(playerId);
-          }
-          this.playerIds.delete(ws);
+  /**
+   * Handles a socket closing.
+   * @param ws The socket.
+   */
+  async webSocketClose(ws: WebSocket) {
+    await this.endSession(ws);
+  }
+
+  /**
+   * Handles a socket failing.
+   * @param ws The socket.
+   */
+  async webSocketError(ws: WebSocket) {
+    await this.endSession(ws);
+  }
+
+  /**
+   * Cleans up after a socket that closed or failed. A player left with no open socket
+   * keeps their seat, marked disconnected, until the reconnect grace period runs out.
+   * @param ws The socket.
+   * @returns A promise that resolves when the seat has been updated.
+   */
+  async endSession(ws: WebSocket) {
+    this.sentViews.delete(ws);
+    const playerId = this.playerIdOf(ws);
+    if (playerId === undefined) return;
+    console.log(`Player ${playerId} disconnected.`);
+    // Clean up video state if they had video active
+    if (this.videoActivePlayerIds.has(playerId)) {
+      this.handleVideoStopped(playerId);
+    }
+    if (this.sessions.some(s => s !== ws && this.playerIdOf(s) === playerId)) return;
+
+    if (!this.gameState) await this.initialize();
+    const player = this.gameState?.players.find(p => p.id === playerId);
+    if (!this.gameState || !player || player.bankrupt || this.gameState.status === 'finished') return;
+    this.clock = Date.now();
+    player.disconnectedAt = this.now();
+    const grace = Math.round(this.gameState.rules.reconnectGraceMs / 1000);
+    this.addLog('connection', `${player.name} disconnected; their seat is kept for ${grace}s.`, { actorId: player.id, params: { variant: 'disconnected', seconds: grace } });
+    await this.updateAndBroadcast();
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Reattaches a socket to the seat a reconnect token was issued for.
+   * @param ws The socket.
+   * @param token The token from the seat's WELCOME message.
+   * @returns A promise that resolves when the socket has been seated or refused.
+   */
+  async rejoin(ws: WebSocket, token: unknown) {
+    if (!this.gameState) return;
+    const playerId = typeof token === 'string' ? await verifySeatToken(this.authSecret(), this.gameState.gameId, token) : undefined;
+    const player = this.gameState.players.find(p => p.id === playerId);
+    // A signed-in player's seat is theirs alone, whoever else got hold of its token
+    if (!player || !player.isHuman || (player.user !== undefined && player.user !== this.verifiedUserOf(ws))) {
+      ws.send(JSON.stringify({ error: 'That seat cannot be resumed.', code: 'bad-seat-token' }));
+      return;
+    }
+    // The seat moves to this socket; any other still on it is cut off
+    for (const other of this.sessions) {
+      if (other === ws || this.playerIdOf(other) !== player.id) continue;
+      this.setPlayerId(other, undefined);
+      other.close(4000, 'Your seat was resumed on another connection.');
+    }
+    this.setPlayerId(ws, player.id);
+    await this.welcome(ws, player.id);
+    this.resumeSeat(player);
+    // An AI turn that was waiting for someone to come back carries on
+    await this.continueAiTurn();
+    await this.updateAndBroadcast();
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Marks a player present again, after reconnecting or acting while on autopilot,
+   * and takes their seat back from the AI.
+   * @param player The player who came back.
+   */
+  resumeSeat(player: Player) {
+    if (player.disconnectedAt === undefined && !player.autopilot) return;
+    this.addLog('connection', player.autopilot ? `${player.name} is back and takes over from the AI.` : `${player.name} reconnected.`,
+      { actorId: player.id, params: { variant: player.autopilot ? 'returned' : 'reconnected' } });
+    player.disconnectedAt = undefined;
+    player.autopilot = false;
+  }
+
+  /**
+   * Notes that a player acted, taking their seat back if the AI was playing it.
+   * @param playerId The ID of the player who sent the action.
+   * @returns True if the player took their seat back.
+   */
+  tookAction(playerId: number): boolean {
+    if (!this.gameState) return false;
+    // In hot-seat mode one socket plays every seat: the seat whose turn it is acted
+    const localMode = (this.gameState as any).localMode === true;
+    const actorId = localMode ? this.gameState.currentPlayerId : playerId;
+    const player = this.gameState.players.find(p => p.id === actorId);
+    if (!player) return false;
+    player.lastActiveAt = this.now();
+    if (!player.autopilot) return false;
+    this.resumeSeat(player);
+    return true;
+  }
+
+  /**
+   * When the AI takes over a human's seat: once a disconnected player's grace period
+   * runs out, or once the player whose turn it is has gone the idle timeout without
+   * acting. Auctions, debts and trades have deadlines of their own and do not count.
+   * @param player The seat's player.
+   * @returns The time, or undefined if nothing is waiting on the seat.
+   */
+  autopilotDueAt(player: Player): number | undefined {
+    const gs = this.gameState;
+    if (!gs || !player.isHuman || player.autopilot || player.bankrupt || gs.status === 'finished') return undefined;
+    if (player.disconnectedAt !== undefined) return player.disconnectedAt + gs.rules.reconnectGraceMs;
+    if (!gs.rules.idleTimeoutMs || gs.startedAt === undefined || player.id !== gs.currentPlayerId || !TIMED_PHASES.has(gs.phase)) return undefined;
+    return Math.max(player.lastActiveAt ?? 0, gs.turnStartedAt ?? 0) + gs.rules.idleTimeoutMs;
+  }
+
+  /**
+   * Hands seats to the AI once their autopilot is due (see autopilotDueAt). The AI
+   * plays them until their players reconnect or act again.
+   * @returns A promise that resolves to true if any seat was handed over.
+   */
+  async startAutopilots(): Promise<boolean> {
+    if (!this.gameState || this.replaying) return false;
+    const due = this.gameState.players.filter(p => this.now() >= (this.autopilotDueAt(p) ?? Infinity));
+    for (const player of due) {
+      player.autopilot = true;
+      if (player.disconnectedAt !== undefined) {
+        this.addLog('connection', `${player.name} has not reconnected; an AI plays for them until they do.`, { actorId: player.id, params: { variant: 'autopilot' } });
+      } else {
+        this.addLog('connection', `${player.name} has been idle; an AI plays for them until they act again.`, { actorId: player.id, params: { variant: 'idle' } });
       }
-      this.sessions = this.sessions.filter((session) => session !== ws);
-    };
+      // Debts already being resolved would otherwise wait for the deadline
+      if (this.gameState.phase === 'debt-resolution' && (this.debtsOf(player.id).length || this.obligationsOf(player.id).length)) {
+        await this.aiResolveDebt(player);
+      }
+    }
+    if (due.length && this.gameState.auction && this.gameState.auction.aiBidAt === undefined) this.scheduleAiBid();
+    return due.length > 0;
+  }
+
+  /**
+   * Moves the turn on for a current player who is out of turn time or chess-clock time,
+   * with the expiry actions the house rules allow. The actions are recorded as the
+   * player's own.
+   * @returns A promise that resolves to true if anything was done for the player.
+   */
+  async checkTurnTimers(): Promise<boolean> {
+    if (!this.gameState || this.replaying) return false;
+    let acted = false;
+    // Bounded like an AI turn; each action moves the phase on or ends the turn
+    for (let step = 0; step < 12; step++) {
+      const timer = expiredTimer(this.gameState, this.now());
+      const action = timer && expiryAction(this.gameState);
+      const player = this.gameState.players.find(p => p.id === this.gameState!.currentPlayerId);
+      if (!timer || !action || !player) break;
+      const { phase, turn } = this.gameState;
+      const draws = this.gameState.rng.cursor;
+      const square = this.gameState.squares[player.position];
+      const outOfTime = `${player.name} is out of ${timer === 'clock' ? 'chess-clock ' : ''}time`;
+      const text = action === 'auto-roll' ? `${outOfTime}; rolling for them.`
+        : action === 'auto-decline-purchase' ? `${outOfTime}; declining ${square.name} for them.`
+        : `${outOfTime}; ending their turn.`;
+      this.addLog('timer', text, { actorId: player.id, squareIds: action === 'auto-decline-purchase' ? [square.id] : undefined, params: { variant: action, timer } });
+      try {
+        await this.aiAct(player.id, EXPIRY_EVENTS[action]);
+      } catch (err) {
+        console.error('Timed-out action failed:', err);
+      }
+      acted = true;
+      if (this.gameState.phase === phase && this.gameState.turn === turn && this.gameState.rng.cursor === draws) {
+        // Nothing moved on (a roll after doubles lands back in pre-roll, but draws dice):
+        // leave it to the player, or the alarm would fire again straight away
+        markTimerStalled(this.gameState);
+        break;
+      }
+    }
+    return acted;
+  }
+
+  /**
+   * Whether an AI plays a seat: AI players, and humans whose seat the AI has taken over.
+   * @param player The seat's player.
+   */
+  isAiControlled(player: Player): boolean {
+    return !player.isHuman || !!player.autopilot;
+  }
+
+  /**
+   * Tells a socket which seat it has and how to get it back after a dropped connection.
+   * @param ws The socket.
+   * @param playerId The seat's player ID.
+   * @returns A promise that resolves when the message has been sent.
+   */
+  async welcome(ws: WebSocket, playerId: number) {
+    const token = await signSeatToken(this.authSecret(), this.gameState!.gameId, playerId);
+    ws.send(JSON.stringify({ type: 'WELCOME', payload: { id: playerId, token } }));
+  }
+
+  /**
+   * The secret tokens are signed with, shared with the Worker.
+   */
+  authSecret(): string {
+    return this.env.AUTH_SECRET || 'dev-secret-not-for-prod';
+  }
+
+  /**
+   * The seat a socket plays, read from the socket's attachment.
+   * @param ws The socket.
+   * @returns The player ID, or undefined for spectators.
+   */
+  playerIdOf(ws: WebSocket): number | undefined {
+    return (ws.deserializeAttachment() as SocketAttachment | null)?.playerId;
+  }
+
+  /**
+   * The username verified for a socket when it opened.
+   * @param ws The socket.
+   * @returns The username, or undefined if the socket has no session.
+   */
+  verifiedUserOf(ws: WebSocket): string | undefined {
+    return (ws.deserializeAttachment() as SocketAttachment | null)?.user;
+  }
+
+  /**
+   * Looks up the email of a verified user.
+   * @param user The verified username.
+   * @returns A promise that resolves to the email, or undefined if there is none.
+   */
+  async emailOf(user?: string): Promise<string | undefined> {
+    if (!user || !this.env.monopolyd1) return undefined;
+    try {
+      const row = await findUserByEmailOrUsername(this.env.monopolyd1, user);
+      return row?.username === user ? row.email || undefined : undefined;
+    } catch (e) {
+      console.error('Failed to look up user email:', e);
+      return undefined;
+    }
+  }
 
-    ws.addEventListener('close', closeOrErrorHandler);
-    ws.addEventListener('error', closeOrErrorHandler);
+  /**
+   * Seats a socket as a player. The seat is stored on the socket so it survives hibernation.
+   * @param ws The socket.
+   * @param playerId The player it plays, or undefined to unseat it.
+   */
+  setPlayerId(ws: WebSocket, playerId: number | undefined) {
+    const attachment: SocketAttachment = { ...(ws.deserializeAttachment() as SocketAttachment | null), playerId };
+    ws.serializeAttachment(attachment);
+  }
 
+  /**
+   * Finds the open socket a player is on.
+   * @param playerId The player.
+   * @returns The socket, or undefined if the player is not connected.
+   */
+  socketOf(playerId: number): WebSocket | undefined {
+    return this.sessions.find(ws => this.playerIdOf(ws) === playerId);
   }
 
   /**
@@ -178,8 +678,8 @@ export class Game implements DurableObject {
    * @param ws The WebSocket connection of the player.
    * @param name The name of the player.
    * @param color The color of the player's token.
-   * @param user The authenticated username, if available.
-   * @param email The authenticated email, if available.
+   * @param user The verified username, or undefined for a guest seat.
+   * @param email The verified user's email, if known.
    * @param playerCount The desired player count (4 or 8) - only from host.
    * @param isHost Whether this is the host creating the game.
    * @returns A promise that resolves when the player has been added.
@@ -189,12 +689,16 @@ export class Game implements DurableObject {
         return;
     }
 
-    // If this user already has a player, reattach
+    // If this user already has a player, reattach. Guest seats are never reattached this way
     if (user) {
       const existing = this.gameState.players.find(p => p.user === user);
       if (existing) {
-        this.playerIds.set(ws, existing.id);
-        ws.send(JSON.stringify({ type: 'WELCOME', payload: { id: existing.id } }));
+        this.setPlayerId(ws, existing.id);
+        await this.welcome(ws, existing.id);
+        this.resumeSeat(existing);
+        await this.continueAiTurn();
+        await this.updateAndBroadcast();
+        await this.scheduleAlarm();
         return;
       }
     }
@@ -224,9 +728,10 @@ export class Game implements DurableObject {
       aiToReplace.user = user;
       aiToReplace.email = email;
 
-      this.playerIds.set(ws, aiToReplace.id);
-      ws.send(JSON.stringify({ type: 'WELCOME', payload: { id: aiToReplace.id } }));
-      this.gameState.log.push(`${aiToReplace.name} has joined the game (replaced an AI).`);
+      this.setPlayerId(ws, aiToReplace.id);
+      await this.welcome(ws, aiToReplace.id);
+      this.addLog('join', `${aiToReplace.name} has joined the game (replaced an AI).`, { actorId: aiToReplace.id });
+      this.recordEvent('join', aiToReplace.id, this.rosterSnapshot());
 
       await this.updateAndBroadcast();
       return;
@@ -245,7 +750,7 @@ export class Game implements DurableObject {
         id: this.gameState.players.length,
         name: this.uniqueName(displayName),
         color: color || 'blue',
-        money: 1500,
+        money: this.gameState.rules.startingCash,
         position: 0,
         inJail: false,
         jailTurns: 0,
@@ -258,10 +763,10 @@ export class Game implements DurableObject {
     };
 
     this.gameState.players.push(newPlayer);
-    this.playerIds.set(ws, newPlayer.id);
+    this.setPlayerId(ws, newPlayer.id);
 
     // Send a welcome message to the new player with their ID
-    ws.send(JSON.stringify({ type: 'WELCOME', payload: { id: newPlayer.id } }));
+    await this.welcome(ws, newPlayer.id);
 
     // If this is the first player, make them the current player and host
     if (this.gameState.players.length === 1) {
@@ -276,11 +781,342 @@ export class Game implements DurableObject {
         await this.fillWithNamedAI(aiNeeded);
     }
 
-    this.gameState.log.push(`${newPlayer.name} has joined the game.`);
+    this.addLog('join', `${newPlayer.name} has joined the game.`, { actorId: newPlayer.id });
+    this.recordEvent('join', newPlayer.id, this.rosterSnapshot());
 
     await this.updateAndBroadcast();
   }
 
+  /**
+   * Sets the house rules for the game. Only the host may do this, and only before the first roll.
+   * @param playerId The ID of the player requesting the change.
+   * @param rules The partial rule set to apply on top of the current rules.
+   * @returns A promise that resolves when the rules have been applied.
+   */
+  async setRules(playerId: number, rules: any) {
+    if (!this.gameState) return;
+    if (playerId !== this.gameState.hostPlayerId) {
+      console.log(`Player ${playerId} tried to change rules but is not the host.`);
+      return;
+    }
+    if (this.gameState.startedAt !== undefined) {
+      this.addLog('refused', 'House rules are locked once the first roll has been made.', { actorId: playerId });
+      return;
+    }
+    const previousCash = this.gameState.rules.startingCash;
+    this.gameState.rules = normalizeRules(rules, this.gameState.rules);
+    if (this.gameState.rules.startingCash !== previousCash) {
+      // Nobody has rolled yet, so everyone still holds exactly the starting cash
+      for (const p of this.gameState.players) p.money = this.gameState.rules.startingCash;
+    }
+    this.addLog('rules', `House rules set: ${describeRules(this.gameState.rules)}.`, { actorId: playerId });
+  }
+
+  /**
+   * Sets how well the AI plays a player's seat while it is on autopilot.
+   * @param playerId The ID of the player.
+   * @param difficulty 'easy', 'medium' or 'hard'.
+   */
+  setAiDifficulty(playerId: number, difficulty: unknown) {
+    const player = this.gameState?.players.find(p => p.id === playerId);
+    if (!player) return;
+    if (difficulty !== 'easy' && difficulty !== 'medium' && difficulty !== 'hard') {
+      console.log(`Player ${playerId} asked for an unknown AI difficulty: ${String(difficulty)}.`);
+      return;
+    }
+    player.aiDifficulty = difficulty;
+  }
+  /**
+   * Rolls the game back to the snapshot taken at (or most recently before) a turn.
+   * Only the host may do this.
+   * @param playerId The ID of the player requesting the rollback.
+   * @param turn The turn to roll back to.
+   * @returns A promise that resolves when the rollback has been applied.
+   */
+  async rollbackToTurn(playerId: number, turn: number) {
+    if (!this.gameState) return;
+    if (playerId !== this.gameState.hostPlayerId) {
+      console.log(`Player ${playerId} tried to roll back the game but is not the host.`);
+      return;
+    }
+    await this.restoreSnapshot(turn, this.gameState.players[playerId]?.name || 'the host', playerId);
+  }
+
+  /**
+   * Replaces the live state with a stored snapshot. Chat, the log and the event sequence
+   * carry over, and the rollback itself is recorded so replays can follow it.
+   * @param turn The turn to roll back to.
+   * @param by Who requested the rollback, for the log.
+   * @param actorId The player who requested the rollback, if any.
+   * @returns A promise that resolves to the turn actually restored, or null if no snapshot was found.
+   */
+  async restoreSnapshot(turn: number, by: string, actorId?: number): Promise<number | null> {
+    if (!this.gameState || !Number.isFinite(turn)) return null;
+    let snapshot: { turn: number; state: GameState } | null = null;
+    try {
+      if (this.env.DB) snapshot = await loadGameSnapshot(this.env.DB, this.gameState.gameId, turn);
+    } catch (e) {
+      console.error('Failed to load snapshot:', e);
+    }
+    if (!snapshot) {
+      this.addLog('refused', `No snapshot found at or before turn ${turn}.`, { actorId, params: { turn } });
+      return null;
+    }
+
+    const { eventSeq, chat, log, logSeq, rng } = this.gameState;
+    const restored = snapshot.state;
+    migrateTurnState(restored);
+    if (!restored.bank) restored.bank = bankStockFromBoard(restored.squares);
+    // The restored turn carries on with the time it had left
+    if (restored.turnClock?.runningSince !== undefined) restored.turnClock.runningSince = this.now();
+    this.gameState = { ...restored, eventSeq, chat, log, logSeq };
+    this.resumeRngAt(rng.cursor);
+    this.addLog('game', `Game rolled back to turn ${snapshot.turn} by ${by}.`, { actorId, params: { turn: snapshot.turn } });
+    this.recordEvent('rollbackToTurn', actorId, { turn: snapshot.turn, eventSeq: restored.eventSeq, rngCursor: rng.cursor });
+    await this.scheduleAlarm();
+    return snapshot.turn;
+  }
+
+  /**
+   * Moves the generator of a rolled-back game on to where the live game had got to and
+   * reshuffles what is left of both decks from there. Without this the players would
+   * already know the dice and cards that come next, having seen them before the rollback.
+   * @param cursor The live generator's cursor.
+   */
+  private resumeRngAt(cursor: number) {
+    const state = this.gameState!;
+    state.rng.cursor = Math.max(state.rng.cursor, cursor);
+    shuffleWith(state.rng, state.chanceDeck);
+    shuffleWith(state.rng, state.communityChestDeck);
+  }
+
+  /**
+   * Stores a full copy of the current state in `game_snapshots`, keyed by turn.
+   * @returns A promise that resolves when the snapshot has been written (or skipped).
+   */
+  async saveTurnSnapshot() {
+    if (!this.gameState || this.replaying || !this.env.DB) return;
+    try {
+      await saveGameSnapshot(this.env.DB, this.gameState.gameId, this.gameState.turn, this.gameState);
+    } catch (e) {
+      console.error('Failed to save snapshot:', e);
+    }
+  }
+
+
+  /**
+   * Captures who is seated where, for the 'join' event.
+   * Joins depend on the socket and on which AI gets replaced, so the outcome is recorded rather than the request.
+   * @returns The seating details needed to rebuild the player list.
+   */
+  rosterSnapshot() {
+    if (!this.gameState) return undefined;
+    return {
+      hostPlayerId: this.gameState.hostPlayerId,
+      maxPlayers: this.gameState.maxPlayers,
+      currentPlayerId: this.gameState.currentPlayerId,
+      players: this.gameState.players.map(p => ({
+        id: p.id, name: p.name, color: p.color, isHuman: p.isHuman, user: p.user, modelId: p.modelId,
+      })),
+    };
+  }
+
+  /**
+   * Records an authoritative game event with the next sequence number.
+   * Events are buffered and written to D1 by `flushEvents`.
+   * @param type The event type.
+   * @param actorId The player responsible for the event, if any.
+   * @param payload The event payload.
+   */
+  recordEvent(type: GameEventType, actorId?: number, payload?: any) {
+    if (!this.gameState || this.replaying) return;
+    this.gameState.eventSeq += 1;
+    this.pendingEvents.push({ seq: this.gameState.eventSeq, type, actorId, payload, ts: this.now() });
+  }
+
+  /**
+   * Records an action as an event and applies it. Many refusals are only logged, so an
+   * action that leaves the game as it was has its event taken back: replays and the
+   * event log only show moves that happened.
+   * @param playerId The ID of the player performing the action.
+   * @param message The message containing the action and payload.
+   * @returns A promise that resolves to what `applyAction` returned.
+   */
+  async recordAndApply(playerId: number, message: WebSocketMessage): Promise<boolean> {
+    if (!this.gameState) return false;
+    const before = this.gameFingerprint();
+    this.recordEvent(message.action as GameEventType, playerId, message.payload);
+    const seq = this.gameState.eventSeq;
+    try {
+      return await this.applyAction(playerId, message);
+    } finally {
+      // Only while nothing was recorded or flushed after it
+      if (this.gameFingerprint() === before && this.pendingEvents[this.pendingEvents.length - 1]?.seq === seq) {
+        this.pendingEvents.pop();
+        this.gameState.eventSeq = seq - 1;
+      }
+    }
+  }
+
+  /**
+   * Serializes the parts of the state that moves change, leaving out the log and chat.
+   * @returns The serialized state, or an empty string if there is none.
+   */
+  gameFingerprint(): string {
+    if (!this.gameState) return '';
+    const { log, logSeq, chat, eventSeq, ...game } = this.gameState;
+    return JSON.stringify(game);
+  }
+
+  /**
+   * Writes buffered events to the `game_events` table.
+   * On failure the events are kept in durable storage and retried on the next flush.
+   * @returns A promise that resolves when the flush attempt is complete.
+   */
+  async flushEvents() {
+    if (!this.gameState || this.pendingEvents.length === 0) return;
+    const batch = this.pendingEvents;
+    this.pendingEvents = [];
+    try {
+      if (!this.env.DB) throw new Error('DB binding not available');
+      await appendGameEvents(this.env.DB, this.gameState.gameId, batch);
+      await this.state.storage.delete('eventOutbox');
+    } catch (e) {
+      console.error('Failed to write game events:', e);
+      this.pendingEvents = batch.concat(this.pendingEvents);
+      await this.state.storage.put('eventOutbox', this.pendingEvents);
+    }
+  }
+
+  /**
+   * Returns the current game time: the time of the message or alarm being handled,
+   * or of the event being replayed.
+   * @returns Milliseconds since the epoch.
+   */
+  now(): number {
+    return this.clock ?? Date.now();
+  }
+
+  /**
+   * Adds an entry to the game log, stamped with the current time and turn.
+   * @param type What the entry is about.
+   * @param text The entry in English.
+   * @param details The players, squares and amounts involved.
+   */
+  addLog(type: LogType, text: string, details: LogDetails = {}) {
+    if (!this.gameState) return;
+    const actor = this.gameState.players.find(p => p.id === details.actorId);
+    if (actor?.autopilot && !UNFLAGGED_LOG_TYPES.has(type)) {
+      // What the AI does in a human's seat is marked as such
+      text = text.replace(/\.?$/, end => ` (autopilot)${end}`);
+      details = { ...details, autopilot: true };
+    }
+    appendLog(this.gameState, this.now(), type, text, details);
+  }
+
+  /**
+   * Re-applies a recorded event. Used when replaying a game from its event log.
+   * @param event The event to apply.
+   * @returns A promise that resolves when the event has been applied.
+   */
+  async applyEvent(event: GameEvent) {
+    if (!this.gameState) return;
+    this.clock = event.ts;
+    switch (event.type) {
+      case 'join':
+        this.applyRoster(event.payload);
+        this.addLog('join', `${this.gameState.players[event.actorId!]?.name} has joined the game.`, { actorId: event.actorId });
+        break;
+      case 'auctionDeadline':
+        await this.checkAuctionDeadline();
+        await this.openDebtResolution();
+        break;
+      case 'debtDeadline':
+        await this.checkDebtDeadlines();
+        await this.openDebtResolution();
+        break;
+      case 'tradeExpiry':
+        this.checkTradeExpiry();
+        break;
+      default:
+        await this.applyAction(event.actorId!, { action: event.type, payload: event.payload });
+    }
+    // Live play checks for the end of the game on every broadcast
+    await this.checkEndGame();
+  }
+
+  /**
+   * Seats players as captured by a 'join' event's roster snapshot.
+   * @param roster The roster recorded with the event.
+   */
+  applyRoster(roster: any) {
+    if (!this.gameState || !roster) return;
+    for (const seat of roster.players || []) {
+      const existing = this.gameState.players.find(p => p.id === seat.id);
+      if (existing) {
+        Object.assign(existing, seat);
+        continue;
+      }
+      this.gameState.players.push({
+        ...seat,
+        money: this.gameState.rules.startingCash,
+        position: 0,
+        inJail: false,
+        jailTurns: 0,
+        communityChestJailCard: false,
+        chanceJailCard: false,
+        bankrupt: false,
+      });
+    }
+    this.gameState.hostPlayerId = roster.hostPlayerId;
+    this.gameState.maxPlayers = roster.maxPlayers;
+    this.gameState.currentPlayerId = roster.currentPlayerId;
+  }
+
+  /**
+   * Rebuilds the game state by re-simulating the event log from the start.
+   * @param gameId The ID of the game.
+   * @param rng The game's generator; only its seed is used.
+   * @param events The recorded events, in sequence order.
+   * @param until Stop after this sequence number, or at the start of this turn.
+   * @returns A promise that resolves to the rebuilt game state.
+   */
+  static async replay(gameId: string, rng: RngState, events: GameEvent[], until: { seq?: number; turn?: number } = {}): Promise<GameState> {
+    const game = new Game(createReplayState(gameId), {} as Env);
+    game.replaying = true;
+    game.gameState = createInitialState(gameId, { ...rng, cursor: 0, revealed: false });
+    for (const event of events) {
+      if (until.seq !== undefined && event.seq > until.seq) break;
+      if (until.turn !== undefined && game.gameState.turn >= until.turn) break;
+      if (event.type === 'rollbackToTurn') {
+        // Rebuild the snapshot the rollback restored, then carry on from there
+        const { chat, log, logSeq } = game.gameState;
+        game.gameState = await Game.replay(gameId, rng, events.filter(e => e.seq <= event.payload.eventSeq));
+        Object.assign(game.gameState, { chat, log, logSeq });
+        if (typeof event.payload.rngCursor === 'number') game.resumeRngAt(event.payload.rngCursor);
+        game.addLog('game', `Game rolled back to turn ${event.payload.turn}.`, { actorId: event.actorId, params: { turn: event.payload.turn } });
+      } else {
+        await game.applyEvent(event);
+      }
+      game.gameState.eventSeq = event.seq;
+    }
+    return game.gameState;
+  }
+
+  /**
+   * Loads the full event log of this game from D1.
+   * @returns A promise that resolves to the ordered events.
+   */
+  async loadEvents(): Promise<GameEvent[]> {
+    if (!this.gameState || !this.env.DB) return [];
+    const events: GameEvent[] = [];
+    for (;;) {
+      const page = await listGameEvents(this.env.DB, this.gameState.gameId, events.length ? events[events.length - 1].seq : 0);
+      events.push(...page);
+      if (page.length < 1000) return events;
+    }
+  }
+
   /**
    * Generates a unique name for a player.
    * @param base The base name to use.
@@ -306,36 +1142,102 @@ export class Game implements DurableObject {
       await this.checkEndGame();
       // It's better to let the alarm handle the auction deadline check
       // await this.checkAuctionDeadline();
+      await this.archiveLog();
       await this.state.storage.put('gameState', this.gameState);
       await this.saveSnapshot();
-      const presence = {
-        players: this.playerIds.size,
-        spectators: Math.max(0, this.sessions.length - this.playerIds.size),
-        connections: this.sessions.length,
-      };
-      const payload: any = { ...this.gameState, _presence: presence };
-      this.broadcast({ type: 'GAME_STATE_UPDATE', payload });
+      await this.flushEvents();
+      const version = ++this.stateVersion;
+      this.broadcast((viewerId: number | undefined, session: WebSocket) => {
+        const view = this.sessionView(viewerId);
+        const sent = this.sentViews.get(session);
+        this.sentViews.set(session, { version, view });
+        if (sent) {
+          const ops = diffJson(sent.view, view);
+          const patch = { type: 'STATE_PATCH', payload: { version, baseVersion: sent.version, ops } };
+          // A patch that rewrites most of the view is no cheaper than the view itself
+          if (JSON.stringify(ops).length < JSON.stringify(view).length) return patch;
+        }
+        return { type: 'GAME_STATE_UPDATE', version, payload: view };
+      });
+  }
+
+  /**
+   * Moves the log entries that no longer fit in the state to storage, where the log
+   * endpoint pages through them.
+   */
+  async archiveLog() {
+    if (!this.gameState || this.replaying) return;
+    const overflow = takeLogOverflow(this.gameState);
+    // A single storage write takes at most 128 keys
+    for (let i = 0; i < overflow.length; i += 128) {
+      await this.state.storage.put(Object.fromEntries(overflow.slice(i, i + 128).map(e => [logArchiveKey(e.seq), e])));
+    }
+  }
+
+  /**
+   * Reads a page of the log, from the state and then from the archive.
+   * @param before Only entries numbered below this.
+   * @param limit The most entries to return.
+   * @returns The entries, oldest first, and the cursor for the page before them if there is one.
+   */
+  async logPage(before: number, limit: number): Promise<{ entries: LogEntry[]; nextBefore?: number }> {
+    const buffered = this.gameState!.log;
+    const entries = buffered.filter(e => e.seq < before).slice(-limit);
+    if (entries.length < limit) {
+      // The archive holds the entries older than the state's
+      const end = Math.min(before, buffered[0]?.seq ?? before);
+      const archived = await this.state.storage.list<LogEntry>({ prefix: 'log:', end: logArchiveKey(end), reverse: true, limit: limit - entries.length });
+      entries.unshift(...[...archived.values()].reverse());
+    }
+    const oldest = entries[0]?.seq;
+    return { entries, nextBefore: oldest !== undefined && oldest > 1 ? oldest : undefined };
+  }
+
+  /**
+   * Builds the view of the state a session is sent, as plain JSON so it can be diffed.
+   * @param viewerId The seated player on the session, or undefined for spectators.
+   * @returns The view, with connection counts.
+   */
+  sessionView(viewerId?: number): any {
+    const sessions = this.sessions;
+    const seated = sessions.filter(ws => this.playerIdOf(ws) !== undefined).length;
+    const presence = {
+      players: seated,
+      spectators: sessions.length - seated,
+      connections: sessions.length,
+    };
+    // Time left as of sending: clients count down from when it arrives, whatever their clock says
+    const timers = this.gameState && timersView(this.gameState, Date.now());
+    return JSON.parse(JSON.stringify({ ...this.publicState(this.gameState, viewerId), _presence: presence, _timers: timers }));
+  }
+
+  /**
+   * Sends a session the whole state at the current version, which later patches build on.
+   * @param ws The session.
+   */
+  sendFullState(ws: WebSocket) {
+    if (!this.gameState) return;
+    const view = this.sessionView(this.playerIdOf(ws));
+    this.sentViews.set(ws, { version: this.stateVersion, view });
+    ws.send(JSON.stringify({ type: 'GAME_STATE_UPDATE', version: this.stateVersion, payload: view }));
   }
 
   /**
    * Broadcasts a message to all connected WebSocket sessions.
-   * @param message The message to broadcast.
+   * @param message The message to broadcast, or a function that builds it for each session
+   * from the player on it (undefined for spectators) when sessions must get different things.
    */
   broadcast(message: any) {
-    const serializedMessage = JSON.stringify(message);
+    const serializedMessage = typeof message === 'function' ? undefined : JSON.stringify(message);
     this.sessions.forEach((session) => {
       try {
         if (session.readyState === WebSocket.OPEN) {
-            session.send(serializedMessage);
+            session.send(serializedMessage ?? JSON.stringify(message(this.playerIdOf(session), session)));
         }
       } catch (err) {
         console.error('Error broadcasting message to session:', err);
-        // Clean up broken session
-        const playerId = this.playerIds.get(session);
-        if (playerId !== undefined) {
-            this.playerIds.delete(session);
-        }
-        this.sessions = this.sessions.filter(s => s !== session);
+        // The next update to a broken session starts from a full state
+        this.sentViews.delete(session);
       }
     });
   }
@@ -348,6 +1250,84 @@ export class Game implements DurableObject {
    */
   async dispatchAction(playerId: number, message: WebSocketMessage) {
     if (!this.gameState) return;
+    // A move shows the player is back even if the phase refuses it
+    if (RECORDED_ACTIONS.has(message.action) && this.tookAction(playerId)) {
+      await this.continueAiTurn();
+      await this.updateAndBroadcast();
+    }
+    this.assertActionAllowed(playerId, message.action);
+
+    const changed = RECORDED_ACTIONS.has(message.action)
+      ? await this.recordAndApply(playerId, message)
+      : await this.applyAction(playerId, message);
+    if (changed) {
+      await this.continueAiTurn();
+      await this.updateAndBroadcast();
+      // Every move and new turn restarts the current player's idle timer
+      await this.scheduleAlarm();
+    }
+  }
+
+  /**
+   * Rejects actions the turn phase does not allow.
+   * @param playerId The ID of the player performing the action.
+   * @param action The action being attempted.
+   * @throws PhaseError if the action is not allowed right now.
+   */
+  assertActionAllowed(playerId: number, action: string) {
+    if (!this.gameState) return;
+    const localMode = (this.gameState as any).localMode === true;
+    const actorId = localMode ? this.gameState.currentPlayerId : playerId;
+    assertActionAllowed(this.gameState.phase, action, this.gameState.currentPlayerId === actorId);
+  }
+
+  /**
+   * Moves the turn to another phase.
+   * @param phase The phase to move to.
+   * @throws IllegalTransitionError if the phase table does not allow the move.
+   */
+  setPhase(phase: TurnPhase) {
+    if (!this.gameState) return;
+    assertTransition(this.gameState.phase, phase);
+    this.gameState.phase = phase;
+    syncTurnClock(this.gameState, this.now());
+  }
+
+  /**
+   * Ends the resolution of a roll: the player rolls again after doubles, otherwise wraps up the turn.
+   */
+  settleRoll() {
+    if (!this.gameState) return;
+    this.setPhase(this.gameState.doublesCount > 0 ? 'pre-roll' : 'post-roll');
+  }
+
+  /**
+   * Pauses the turn in an interrupting phase, remembering where to resume.
+   * @param phase The interrupting phase.
+   */
+  interruptPhase(phase: TurnPhase) {
+    if (!this.gameState) return;
+    const from = this.gameState.phase;
+    this.setPhase(phase);
+    (this.gameState.pausedPhases ||= []).push(from);
+  }
+
+  /**
+   * Returns from an interrupting phase to the phase it paused.
+   */
+  resumePhase() {
+    if (!this.gameState) return;
+    this.setPhase(this.gameState.pausedPhases?.pop() || 'post-roll');
+  }
+
+  /**
+   * Applies a game action to the state. Shared by live play and replays.
+   * @param playerId The ID of the player performing the action.
+   * @param message The message containing the action and payload.
+   * @returns A promise that resolves to true if the full state should be broadcast afterwards.
+   */
+  async applyAction(playerId: number, message: WebSocketMessage): Promise<boolean> {
+    if (!this.gameState) return false;
     const localMode = (this.gameState as any).localMode === true;
     const actorId = localMode ? this.gameState.currentPlayerId : playerId;
     const isTurn = this.gameState.currentPlayerId === actorId;
@@ -360,17 +1340,14 @@ export class Game implements DurableObject {
         if (isTurn) await this.buyProperty(actorId);
         break;
       case 'endTurn':
-        // Allow ending turn at any stage (except during active auction)
-        if (isTurn && !this.gameState.auction) {
-          this.gameState.turnState = 'ended';
-          await this.nextTurn();
-        }
+        if (isTurn) await this.nextTurn();
         break;
+      // Gifts always come from the sender, even in hot-seat mode
       case 'giveMoney':
-        await this.giveMoney(actorId, message.payload?.toPlayerId, message.payload?.amount);
+        await this.giveMoney(playerId, message.payload?.toPlayerId, message.payload?.amount);
         break;
       case 'transferProperty':
-        await this.transferProperty(actorId, message.payload?.squareId, message.payload?.toPlayerId);
+        await this.transferProperty(playerId, message.payload?.squareId, message.payload?.toPlayerId);
         break;
       case 'addNPC':
         await this.addNpc(message.payload?.count || 1, message.payload?.modelId);
@@ -378,6 +1355,15 @@ export class Game implements DurableObject {
       case 'start-game':
         await this.handleStartGame(message.payload?.totalPlayers || 8);
         break;
+      case 'setRules':
+        await this.setRules(playerId, message.payload?.rules);
+        break;
+      case 'setAiDifficulty':
+        this.setAiDifficulty(playerId, message.payload?.difficulty);
+        break;
+      case 'rollbackToTurn':
+        await this.rollbackToTurn(playerId, Number(message.payload?.turn));
+        break;
       case 'ping':
         // no-op heartbeat
         break;
@@ -387,15 +1373,30 @@ export class Game implements DurableObject {
       case 'chat':
         await this.receiveChat(actorId, message.payload?.text);
         // Chat is broadcast separately without forcing a full state update
-        return;
+        return false;
       case 'buildHouse':
         if (isTurn) await this.buildHouse(actorId, message.payload?.squareId);
         break;
       case 'sellHouse':
-        if (isTurn) await this.sellHouse(actorId, message.payload?.squareId);
+        if (isTurn || this.debtsOf(actorId).length) await this.sellHouse(actorId, message.payload?.squareId);
         break;
       case 'mortgage':
-        if (isTurn) await this.mortgage(actorId, message.payload?.squareId);
+        if (isTurn || this.debtsOf(actorId).length) await this.mortgage(actorId, message.payload?.squareId);
+        break;
+      case 'payDebt':
+        await this.payDebt(actorId);
+        break;
+      case 'declareBankruptcy':
+        await this.declareBankruptcy(actorId);
+        break;
+      case 'payJailFine':
+        if (isTurn) await this.payJailFine(actorId);
+        break;
+      case 'useJailCard':
+        if (isTurn) await this.useJailCard(actorId);
+        break;
+      case 'resolveMortgage':
+        await this.resolveMortgage(actorId, message.payload?.squareId, message.payload?.lift === true);
         break;
       case 'unmortgage':
         if (isTurn) await this.unmortgage(actorId, message.payload?.squareId);
@@ -403,17 +1404,35 @@ export class Game implements DurableObject {
       case 'proposeTrade':
         await this.proposeTrade(actorId, message.payload);
         break;
+      case 'counterTrade':
+        await this.counterTrade(actorId, message.payload);
+        break;
       case 'acceptTrade':
-        await this.acceptTrade(actorId);
+        await this.acceptTrade(actorId, message.payload?.tradeId);
         break;
       case 'rejectTrade':
-        await this.rejectTrade(actorId);
+        await this.rejectTrade(actorId, message.payload?.tradeId);
         break;
-      case 'startAuction':
-        await this.startAuction(message.payload?.squareId);
+      case 'startAuction': {
+        // Only the property the player landed on goes under the hammer, whatever the client sent
+        const landed = this.gameState.players.find(p => p.id === actorId)?.position;
+        if (landed !== undefined) await this.startAuction(landed);
         break;
+      }
       case 'placeBid':
-        await this.placeBid(actorId, message.payload?.amount);
+        await this.placeBid(actorId, message.payload?.amount, message.payload?.squareId);
+        // Bids and passes only touch the auction until it closes
+        if (this.gameState.auction) {
+          await this.broadcastAuctionUpdate();
+          return false;
+        }
+        break;
+      case 'passAuction':
+        await this.passAuction(actorId);
+        if (this.gameState.auction) {
+          await this.broadcastAuctionUpdate();
+          return false;
+        }
         break;
       case 'declineToBuyProperty':
         if (isTurn) await this.declineToBuyProperty(actorId);
@@ -421,24 +1440,25 @@ export class Game implements DurableObject {
       // WebRTC Video Chat signaling
       case 'video-ready':
         this.handleVideoReady(playerId);
-        return;
+        return false;
       case 'video-stopped':
         this.handleVideoStopped(playerId);
-        return;
+        return false;
       case 'webrtc-offer':
         this.relayWebRTCMessage('WEBRTC_OFFER', playerId, message.payload);
-        return;
+        return false;
       case 'webrtc-answer':
         this.relayWebRTCMessage('WEBRTC_ANSWER', playerId, message.payload);
-        return;
+        return false;
       case 'webrtc-ice':
         this.relayWebRTCMessage('WEBRTC_ICE', playerId, message.payload);
-        return;
+        return false;
       default:
         console.log(`Unknown action: ${message.action}`);
     }
 
-    await this.updateAndBroadcast();
+    await this.openDebtResolution();
+    return true;
   }
 
   /**
@@ -461,8 +1481,7 @@ export class Game implements DurableObject {
       .filter(Boolean);
 
     // Send existing peers to the new player
-    const newPlayerWs = Array.from(this.playerIds.entries())
-      .find(([, pid]) => pid === playerId)?.[0];
+    const newPlayerWs = this.socketOf(playerId);
 
     if (newPlayerWs && newPlayerWs.readyState === WebSocket.OPEN && existingVideoPeers.length > 0) {
       try {
@@ -522,8 +1541,7 @@ export class Game implements DurableObject {
     if (!fromPlayer) return;
 
     const targetPlayerId = payload.targetPlayerId;
-    const targetWs = Array.from(this.playerIds.entries())
-      .find(([, pid]) => pid === targetPlayerId)?.[0];
+    const targetWs = this.socketOf(targetPlayerId);
 
     if (targetWs && targetWs.readyState === WebSocket.OPEN) {
       try {
@@ -551,7 +1569,7 @@ export class Game implements DurableObject {
     this.sessions.forEach((session) => {
       try {
         if (session.readyState === WebSocket.OPEN) {
-          const sessionPlayerId = this.playerIds.get(session);
+          const sessionPlayerId = this.playerIdOf(session);
           if (sessionPlayerId !== excludePlayerId) {
             session.send(serializedMessage);
           }
@@ -648,7 +1666,7 @@ export class Game implements DurableObject {
     const table = this.gameState.players.map(p => `${p.name}($${p.money}${p.bankrupt?' bankrupt':''})`).join(', ');
 
     // Get recent game events for context
-    const recentLogs = (this.gameState.log || []).slice(-5).join('\n');
+    const recentLogs = (this.gameState.log || []).slice(-5).map(e => e.text).join('\n');
     const context = `Players: ${table}\nTurn: ${this.gameState.turn}\nRecent events:\n${recentLogs}`;
 
     // Use the speaker's personality if available, otherwise use default
@@ -703,96 +1721,120 @@ export class Game implements DurableObject {
    * @returns A promise that resolves when the dice roll and its consequences are handled.
    */
   async rollDice(playerId: number) {
-    if (!this.gameState || (this.gameState.turnState !== 'rolling' && this.gameState.turnState !== undefined)) return;
+    if (!this.gameState || (this.gameState.phase !== 'pre-roll' && this.gameState.phase !== 'jail-decision')) return;
 
     const player = this.gameState.players.find(p => p.id === playerId);
     if (!player) return;
 
-    this.gameState.turnState = 'acting'; // Player is now acting
+    const rollPhase = this.gameState.phase;
+    if (this.gameState.startedAt === undefined) {
+      // First roll locks the house rules and starts the game clock
+      this.gameState.startedAt = this.now();
+      syncTurnClock(this.gameState, this.now());
+    }
 
-    const die1 = Math.floor(Math.random() * 6) + 1;
-    const die2 = Math.floor(Math.random() * 6) + 1;
+    const die1 = rollDie(this.gameState.rng);
+    const die2 = rollDie(this.gameState.rng);
     this.gameState.dice = [die1, die2];
-    this.gameState.log.push(`${player.name} rolled a ${die1} and a ${die2}.`);
+    this.addLog('roll', `${player.name} rolled a ${die1} and a ${die2}.`, { actorId: player.id, params: { die1, die2 } });
 
     const isDoubles = die1 === die2;
 
     if (player.inJail) {
+        // Leaving jail never earns another roll
+        this.gameState.doublesCount = 0;
         if (isDoubles) {
             player.inJail = false;
-            this.gameState.log.push(`${player.name} rolled doubles and got out of jail!`);
+            this.addLog('jail-release', `${player.name} rolled doubles and got out of jail!`, { actorId: player.id, params: { variant: 'doubles' } });
             await this.movePlayer(playerId, die1 + die2);
-            this.gameState.turnState = 'rolling'; // Got out, can roll again
         } else {
             player.jailTurns++;
             if (player.jailTurns >= 3) {
-                await this.pay(player, 50);
+                const fine = this.gameState.rules.jailFine;
+                await this.payFee(player, fine);
                 player.inJail = false;
-                this.gameState.log.push(`${player.name} paid $50 to get out of jail.`);
+                this.addLog('jail-release', `${player.name} paid $${fine} to get out of jail.`, { actorId: player.id, amount: fine, params: { variant: 'fine' } });
                 await this.movePlayer(playerId, die1 + die2);
             } else {
-                this.gameState.log.push(`${player.name} remains in jail.`);
+                this.addLog('jail', `${player.name} remains in jail.`, { actorId: player.id, params: { variant: 'stays' } });
             }
-            this.gameState.turnState = 'ended'; // Turn ends whether they paid or stayed
         }
     } else { // Not in jail
         if (isDoubles) {
             this.gameState.doublesCount++;
             if (this.gameState.doublesCount >= 3) {
-                this.gameState.log.push(`${player.name} rolled doubles three times and is sent to jail!`);
+                this.addLog('jail', `${player.name} rolled doubles three times and is sent to jail!`, { actorId: player.id, params: { variant: 'doubles' } });
                 this.goToJail(playerId);
-                this.gameState.doublesCount = 0;
-                this.gameState.turnState = 'ended';
             } else {
                 await this.movePlayer(playerId, die1 + die2);
-                // If the move triggered a property purchase opportunity, keep that state
-                // Otherwise, allow rolling again
-                if (this.gameState.turnState === 'acting') {
-                    this.gameState.turnState = 'rolling'; // Roll again if no action needed
-                }
-                // If turnState is 'LandedOnUnownedProperty' or similar, DON'T override it
             }
         } else {
             this.gameState.doublesCount = 0;
             await this.movePlayer(playerId, die1 + die2);
-            // If move didn't trigger a buy/auction, turn is over
-            if (this.gameState.turnState === 'acting') {
-                this.gameState.turnState = 'ended';
-            }
         }
     }
+
+    // Unless the landing opened a decision (purchase, auction...), the roll is settled
+    if (this.gameState.phase === rollPhase) this.settleRoll();
   }
 
   /**
    * Moves a player on the board.
    * @param playerId The ID of the player to move.
-   * @param amount The number of squares to move.
+   * @param amount The number of squares to move; negative moves the player backwards.
+   * @param collectGo Whether passing GO pays the salary. Backward moves never do.
+   * @param cardMultiplier Rent multiplier from a card, passed on to `payRent`.
    * @returns A promise that resolves when the player has been moved and the landing action is handled.
    */
-  async movePlayer(playerId: number, amount: number) {
+  async movePlayer(playerId: number, amount: number, collectGo = true, cardMultiplier?: number) {
       if (!this.gameState) return;
       const player = this.gameState.players.find(p => p.id === playerId);
       if (!player) return;
 
       const oldPosition = player.position;
-      player.position = (oldPosition + amount) % 40;
-
-      if (player.position < oldPosition) {
-          player.money += 200;
-          this.gameState.log.push(`${player.name} passed GO and collected $200.`);
+      player.position = (oldPosition + amount + 40) % 40;
+
+      if (collectGo && amount > 0 && player.position < oldPosition) {
+          const rules = this.gameState.rules;
+          const salary = player.position === 0 && rules.doubleSalaryOnGo ? rules.goSalary * 2 : rules.goSalary;
+          player.money += salary;
+          if (player.position === 0 && rules.doubleSalaryOnGo) {
+              this.addLog('pass-go', `${player.name} landed on GO and collected double salary of $${salary}.`, { actorId: player.id, squareIds: [0], amount: salary, params: { variant: 'double' } });
+          } else {
+              this.addLog('pass-go', `${player.name} passed GO and collected $${salary}.`, { actorId: player.id, squareIds: [0], amount: salary });
+          }
       }
 
-      this.gameState.log.push(`${player.name} moved to ${this.gameState.squares[player.position].name}.`);
-      await this.landOnSquare(playerId, player.position);
+      this.addLog('move', `${player.name} moved to ${this.gameState.squares[player.position].name}.`, { actorId: player.id, squareIds: [player.position] });
+      await this.landOnSquare(playerId, player.position, cardMultiplier);
+  }
+
+  /**
+   * Moves a player forward to the next square of a given type.
+   * @param player The player to move.
+   * @param type The square type to stop on.
+   * @param collectGo Whether passing GO pays the salary.
+   * @param cardMultiplier Rent multiplier from a card, passed on to `payRent`.
+   * @returns A promise that resolves when the player has been moved.
+   */
+  async advanceToNearest(player: Player, type: 'railroad' | 'utility', collectGo = true, cardMultiplier?: number) {
+      if (!this.gameState) return;
+      for (let step = 1; step <= 40; step++) {
+        if (this.gameState.squares[(player.position + step) % 40].type === type) {
+          await this.movePlayer(player.id, step, collectGo, cardMultiplier);
+          return;
+        }
+      }
   }
 
   /**
    * Handles the action when a player lands on a square.
    * @param playerId The ID of the player.
    * @param squareId The ID of the square the player landed on.
+   * @param cardMultiplier Rent multiplier from a card, passed on to `payRent`.
    * @returns A promise that resolves when the landing action is complete.
    */
-  async landOnSquare(playerId: number, squareId: number) {
+  async landOnSquare(playerId: number, squareId: number, cardMultiplier?: number) {
       if (!this.gameState) return;
       const player = this.gameState.players.find(p => p.id === playerId);
       const square = this.gameState.squares.find(s => s.id === squareId);
@@ -803,101 +1845,365 @@ export class Game implements DurableObject {
           case 'railroad':
           case 'utility':
               if (square.ownerId === undefined) {
-                  this.gameState.turnState = 'LandedOnUnownedProperty';
-                  this.gameState.log.push(`${player.name} can buy ${square.name} for $${square.price}.`);
+                  this.setPhase('resolve-landing');
+                  this.addLog('buy', `${player.name} can buy ${square.name} for $${square.price}.`, { actorId: player.id, squareIds: [square.id], amount: square.price, params: { variant: 'offered' } });
               } else if (square.ownerId !== playerId && !square.mortgaged) {
-                  await this.payRent(player, square);
+                  await this.payRent(player, square, cardMultiplier);
               }
               break;
           case 'tax':
-              const taxAmount = square.name === 'Luxury Tax' ? 100 : 200;
-              this.gameState.log.push(`${player.name} paid $${taxAmount} in taxes.`);
-              await this.pay(player, taxAmount);
+              const taxAmount = square.name === 'Luxury Tax' ? this.gameState.rules.luxuryTax : this.gameState.rules.incomeTax;
+              this.addLog('tax', `${player.name} paid $${taxAmount} in taxes.`, { actorId: player.id, squareIds: [square.id], amount: taxAmount });
+              await this.payFee(player, taxAmount);
               break;
           case 'go-to-jail':
-              this.gameState.log.push(`${player.name} is sent to jail!`);
+              this.addLog('jail', `${player.name} is sent to jail!`, { actorId: player.id });
               this.goToJail(playerId);
-              this.gameState.turnState = 'ended';
               break;
           case 'chance':
-              this.gameState.log.push(`${player.name} landed on Chance.`);
+              this.addLog('move', `${player.name} landed on Chance.`, { actorId: player.id, squareIds: [square.id], params: { variant: 'landed' } });
               await this.drawCard(player, 'chance');
               break;
           case 'community-chest':
-              this.gameState.log.push(`${player.name} landed on Community Chest.`);
+              this.addLog('move', `${player.name} landed on Community Chest.`, { actorId: player.id, squareIds: [square.id], params: { variant: 'landed' } });
               await this.drawCard(player, 'community-chest');
               break;
+          case 'free-parking':
+              if (this.gameState.rules.freeParkingJackpot && (this.gameState.freeParkingPot || 0) > 0) {
+                  const pot = this.gameState.freeParkingPot || 0;
+                  player.money += pot;
+                  this.gameState.freeParkingPot = 0;
+                  this.addLog('jackpot', `${player.name} collected the Free Parking jackpot of $${pot}!`, { actorId: player.id, squareIds: [square.id], amount: pot });
+              }
+              break;
           case 'go':
           case 'jail':
-          case 'free-parking':
               // No action needed
               break;
       }
   }
 
+  /**
+   * Makes a player pay a tax, fine or fee to the bank.
+   * With the Free Parking jackpot rule, the money goes into the pot instead.
+   * @param player The player who is paying.
+   * @param amount The amount of money to pay.
+   * @returns A promise that resolves when the payment is complete.
+   */
+  async payFee(player: Player, amount: number) {
+      if (!this.gameState) return;
+      await this.pay(player, amount, undefined, this.gameState.rules.freeParkingJackpot);
+  }
+
   /**
    * Makes a player pay a certain amount of money.
+   * A player who cannot cover it in cash (or already owes money) takes on a debt instead,
+   * to be raised during the debt-resolution phase.
    * @param player The player who is paying.
    * @param amount The amount of money to pay.
    * @param recipient The player who is receiving the money, if any.
+   * @param toPot Whether a payment to the bank goes into the Free Parking jackpot.
    * @returns A promise that resolves when the payment is complete.
    */
-  async pay(player: Player, amount: number, recipient?: Player) {
+  async pay(player: Player, amount: number, recipient?: Player, toPot = false) {
       if (!this.gameState) return;
       amount = Math.max(0, Math.floor(Number(amount) || 0));
       if (amount === 0) return;
 
-      // Fast path: player can cover the payment
-      if (player.money >= amount) {
+      // Earlier debts are settled first, so anything owed after them queues up behind
+      if (player.money >= amount && this.debtsOf(player.id).length === 0) {
         player.money -= amount;
-        if (recipient) recipient.money += amount;
+        this.credit(amount, recipient, toPot);
         return;
       }
 
-      // Attempt automatic liquidation: sell buildings, then mortgage properties
-      const raise = (needed: number) => {
-        let raised = 0;
-        // 1) Sell all buildings (houseCost/2 per house), hotels count as 5 houses
-        for (const sq of this.gameState!.squares) {
-          if (sq.type === 'property' && sq.ownerId === player.id && (sq.houses || 0) > 0) {
-            const houses = sq.houses || 0;
-            const refund = Math.floor((sq.houseCost || 0) / 2) * houses;
-            if (refund > 0) {
-              player.money += refund;
-              raised += refund;
-              sq.houses = 0;
-              this.gameState!.log.push(`${player.name} sold buildings on ${sq.name} for $${refund}.`);
-              if (player.money >= amount) return raised;
-            }
+      (this.gameState.debts ||= []).push({
+        debtorId: player.id,
+        creditorId: recipient?.id,
+        amount,
+        toPot: toPot || undefined,
+        deadline: this.now() + this.gameState.rules.debtDeadlineMs,
+      });
+      this.addLog('debt', `${player.name} owes $${amount} to ${recipient ? recipient.name : 'the bank'} and must raise funds.`, { actorId: player.id, amount, params: recipient ? { creditorId: recipient.id } : {} });
+  }
+
+  /**
+   * Hands a payment to its recipient: a player, the Free Parking pot or the bank.
+   * Money owed to a player who has since gone bankrupt goes to the bank.
+   */
+  credit(amount: number, recipient?: Player, toPot = false) {
+      if (!this.gameState) return;
+      if (recipient && !recipient.bankrupt) recipient.money += amount;
+      else if (toPot) this.gameState.freeParkingPot = (this.gameState.freeParkingPot || 0) + amount;
+  }
+
+  /**
+   * Lists the debts a player still owes.
+   * @param playerId The ID of the player.
+   * @returns The player's outstanding debts.
+   */
+  debtsOf(playerId: number): Debt[] {
+      return this.gameState?.debts?.filter(d => d.debtorId === playerId) || [];
+  }
+
+  /**
+   * Lists the mortgage obligations a player has not settled yet.
+   * @param playerId The ID of the new owner.
+   * @returns The player's pending obligations.
+   */
+  obligationsOf(playerId: number): MortgageObligation[] {
+      return this.gameState?.mortgageObligations?.filter(o => o.playerId === playerId) || [];
+  }
+
+  /**
+   * Whether anyone still owes money or has a mortgaged property to settle.
+   */
+  hasOpenDebts(): boolean {
+      return !!(this.gameState?.debts?.length || this.gameState?.mortgageObligations?.length);
+  }
+
+  /**
+   * Opens the debt-resolution phase if the last action left anyone owing money or
+   * holding a mortgaged property to settle. Called at the end of every applied action
+   * (and after an auction closes); AI debtors settle straight away.
+   * @returns A promise that resolves when the phase is open.
+   */
+  async openDebtResolution() {
+      if (!this.gameState || !this.hasOpenDebts() || this.gameState.phase === 'debt-resolution') return;
+      // A running auction finishes first; its deadline reopens debt resolution
+      if (this.gameState.phase === 'auction') return;
+      this.interruptPhase('debt-resolution');
+      await this.scheduleAlarm();
+
+      if (this.replaying) return;
+      const debtorIds = [...new Set([
+        ...(this.gameState.debts || []).map(d => d.debtorId),
+        ...(this.gameState.mortgageObligations || []).map(o => o.playerId),
+      ])];
+      for (const id of debtorIds) {
+        const debtor = this.gameState.players[id];
+        if (debtor && this.isAiControlled(debtor)) await this.aiResolveDebt(debtor);
+      }
+  }
+
+  /**
+   * Returns to the paused phase once every debt and mortgage obligation has been settled.
+   */
+  closeDebtResolution() {
+      if (!this.gameState || this.hasOpenDebts()) return;
+      if (this.gameState.phase === 'debt-resolution') this.resumePhase();
+  }
+
+  /**
+   * Hands a property to a new owner. A mortgaged property leaves them an obligation to
+   * pay the bank 10% interest or lift the mortgage (see `resolveMortgage`).
+   * @param sq The property changing hands.
+   * @param owner The new owner.
+   */
+  changeOwner(sq: Square, owner: Player) {
+      if (!this.gameState) return;
+      sq.ownerId = owner.id;
+      if (!sq.mortgaged) return;
+      // Any earlier owner's unsettled obligation on this property lapses with it
+      const others = (this.gameState.mortgageObligations || []).filter(o => o.squareId !== sq.id);
+      this.gameState.mortgageObligations = [...others, {
+        playerId: owner.id,
+        squareId: sq.id,
+        deadline: this.now() + this.gameState.rules.debtDeadlineMs,
+      }];
+      this.addLog('mortgage', `${owner.name} received mortgaged ${sq.name} and must pay $${this.mortgageInterest(sq)} interest or lift the mortgage for $${this.unmortgageCost(sq)}.`, { actorId: owner.id, squareIds: [sq.id], amount: this.mortgageInterest(sq), params: { variant: 'received', liftCost: this.unmortgageCost(sq) } });
+  }
+
+  /**
+   * The bank's 10% interest on a property's mortgage value.
+   * @param sq The mortgaged property.
+   */
+  mortgageInterest(sq: Square): number {
+      return Math.ceil((sq.price || 0) * 0.05);
+  }
+
+  /**
+   * What it costs to lift a mortgage: the mortgage value plus 10% interest.
+   * @param sq The mortgaged property.
+   */
+  unmortgageCost(sq: Square): number {
+      return Math.ceil((sq.price || 0) * 0.55);
+  }
+
+  /**
+   * Settles a mortgaged property received from another player: either pay the 10% interest
+   * and keep the mortgage, or pay it off in full now.
+   * @param playerId The ID of the new owner.
+   * @param squareId The ID of the mortgaged property.
+   * @param lift True to lift the mortgage, false to pay interest only.
+   * @returns A promise that resolves when the obligation is settled.
+   */
+  async resolveMortgage(playerId: number, squareId: number, lift: boolean) {
+      if (!this.gameState) return;
+      const player = this.gameState.players.find(p => p.id === playerId);
+      const obligation = this.obligationsOf(playerId).find(o => o.squareId === squareId);
+      const sq = this.gameState.squares.find(s => s.id === squareId);
+      if (!player || !obligation || !sq) return;
+
+      const cost = lift ? this.unmortgageCost(sq) : this.mortgageInterest(sq);
+      if (player.money < cost) {
+        this.addLog('refused', `${player.name} cannot afford $${cost} for ${sq.name}.`, { actorId: player.id, squareIds: [sq.id], amount: cost });
+        return;
+      }
+      player.money -= cost;
+      if (lift) sq.mortgaged = false;
+      this.gameState.mortgageObligations = this.gameState.mortgageObligations!.filter(o => o !== obligation);
+      this.addLog(lift ? 'unmortgage' : 'mortgage', lift
+        ? `${player.name} lifted the mortgage on ${sq.name} for $${cost}.`
+        : `${player.name} paid $${cost} interest and kept ${sq.name} mortgaged.`,
+        { actorId: player.id, squareIds: [sq.id], amount: cost, params: lift ? {} : { variant: 'interest' } });
+      this.closeDebtResolution();
+  }
+
+  /**
+   * Pays off all of a player's debts, if they now hold enough cash.
+   * @param playerId The ID of the debtor.
+   * @returns A promise that resolves when the debts are paid.
+   */
+  async payDebt(playerId: number) {
+      if (!this.gameState) return;
+      const player = this.gameState.players.find(p => p.id === playerId);
+      const debts = this.debtsOf(playerId);
+      if (!player || debts.length === 0) return;
+
+      const total = debts.reduce((sum, d) => sum + d.amount, 0);
+      if (player.money < total) {
+        this.addLog('debt', `${player.name} still needs $${total - player.money} to pay their debts.`, { actorId: player.id, amount: total - player.money, params: { variant: 'short' } });
+        return;
+      }
+      this.settleDebts(player);
+      this.closeDebtResolution();
+  }
+
+  /**
+   * Settles a debtor's debts from their cash. The caller checks they can afford it.
+   * @param player The debtor.
+   */
+  settleDebts(player: Player) {
+      if (!this.gameState) return;
+      for (const d of this.debtsOf(player.id)) {
+        const creditor = d.creditorId !== undefined ? this.gameState.players[d.creditorId] : undefined;
+        player.money -= d.amount;
+        this.credit(d.amount, creditor, d.toPot);
+        this.addLog('payment', `${player.name} paid $${d.amount} to ${creditor ? creditor.name : 'the bank'}.`, { actorId: player.id, amount: d.amount, params: creditor ? { creditorId: creditor.id } : {} });
+      }
+      this.gameState.debts = this.gameState.debts!.filter(d => d.debtorId !== player.id);
+  }
+
+  /**
+   * Lets a debtor give up: their assets go to their first player creditor, or the bank.
+   * @param playerId The ID of the debtor.
+   * @returns A promise that resolves when the bankruptcy has been handled.
+   */
+  async declareBankruptcy(playerId: number) {
+      if (!this.gameState) return;
+      const player = this.gameState.players.find(p => p.id === playerId);
+      const debts = this.debtsOf(playerId);
+      if (!player || debts.length === 0) return;
+
+      const creditorId = debts.find(d => d.creditorId !== undefined)?.creditorId;
+      const creditor = creditorId !== undefined ? this.gameState.players[creditorId] : undefined;
+      const total = debts.reduce((sum, d) => sum + d.amount, 0);
+      await this.handleBankruptcy(player, creditor, total);
+      this.closeDebtResolution();
+  }
+
+  /**
+   * Settles debts whose deadline has passed: the debtor's assets are liquidated in board
+   * order and the debt paid, or the debtor goes bankrupt.
+   * @returns A promise that resolves to true if any debt was settled.
+   */
+  async checkDebtDeadlines(): Promise<boolean> {
+      if (!this.gameState || !this.hasOpenDebts()) return false;
+      const now = this.now();
+
+      // Unsettled mortgages keep the mortgage and charge the interest, which may become a debt
+      const lapsed = (this.gameState.mortgageObligations || []).filter(o => o.deadline <= now);
+      if (lapsed.length) {
+        this.gameState.mortgageObligations = this.gameState.mortgageObligations!.filter(o => o.deadline > now);
+        for (const o of lapsed) {
+          const player = this.gameState.players[o.playerId];
+          const sq = this.gameState.squares[o.squareId];
+          if (!player || player.bankrupt || !sq || sq.ownerId !== player.id || !sq.mortgaged) continue;
+          this.addLog('mortgage', `${player.name} kept ${sq.name} mortgaged and is charged $${this.mortgageInterest(sq)} interest.`, { actorId: player.id, squareIds: [sq.id], amount: this.mortgageInterest(sq), params: { variant: 'interest' } });
+          await this.pay(player, this.mortgageInterest(sq));
+        }
+      }
+
+      const expired = [...new Set((this.gameState.debts || []).filter(d => d.deadline <= now).map(d => d.debtorId))];
+      for (const id of expired) {
+        const player = this.gameState.players[id];
+        if (!player) continue;
+        const total = this.debtsOf(id).reduce((sum, d) => sum + d.amount, 0);
+        this.addLog('debt', `${player.name} ran out of time to raise funds.`, { actorId: player.id, amount: total, params: { variant: 'expired' } });
+        this.liquidate(player, total);
+        if (player.money >= total) {
+          this.settleDebts(player);
+        } else {
+          await this.declareBankruptcy(id);
+        }
+      }
+      this.closeDebtResolution();
+      return expired.length > 0 || lapsed.length > 0;
+  }
+
+  /**
+   * Raises cash by selling buildings, then mortgaging properties, in board order.
+   * @param player The player raising funds.
+   * @param target Stop once the player holds this much cash.
+   */
+  liquidate(player: Player, target: number) {
+      if (!this.gameState) return;
+      // 1) Sell all buildings (houseCost/2 per house), hotels count as 5 houses.
+      // A whole group is cleared at once so it stays evenly built.
+      for (const sq of this.gameState.squares) {
+        if (player.money >= target) return;
+        if (sq.type === 'property' && sq.ownerId === player.id && (sq.houses || 0) > 0) {
+          for (const lot of this.gameState.squares.filter(s => s.type === 'property' && s.group === sq.group)) {
+            const refund = Math.floor((lot.houseCost || 0) / 2) * (lot.houses || 0);
+            if (refund <= 0) continue;
+            player.money += refund;
+            this.returnBuildings(lot);
+            this.addLog('sell-building', `${player.name} sold buildings on ${lot.name} for $${refund}.`, { actorId: player.id, squareIds: [lot.id], amount: refund });
           }
         }
-        // 2) Mortgage any unmortgaged properties
-        for (const sq of this.gameState!.squares) {
-          if ((sq.type === 'property' || sq.type === 'railroad' || sq.type === 'utility') && sq.ownerId === player.id && !sq.mortgaged) {
-            const value = Math.floor((sq.price || 0) / 2);
-            if (value > 0 && (sq.houses || 0) === 0) {
-              player.money += value;
-              raised += value;
-              sq.mortgaged = true;
-              this.gameState!.log.push(`${player.name} mortgaged ${sq.name} for $${value}.`);
-              if (player.money >= amount) return raised;
-            }
+      }
+      // 2) Mortgage any unmortgaged properties
+      for (const sq of this.gameState.squares) {
+        if (player.money >= target) return;
+        if ((sq.type === 'property' || sq.type === 'railroad' || sq.type === 'utility') && sq.ownerId === player.id && !sq.mortgaged) {
+          const value = Math.floor((sq.price || 0) / 2);
+          if (value > 0 && (sq.houses || 0) === 0) {
+            player.money += value;
+            sq.mortgaged = true;
+            this.addLog('mortgage', `${player.name} mortgaged ${sq.name} for $${value}.`, { actorId: player.id, squareIds: [sq.id], amount: value });
           }
         }
-        return raised;
-      };
-
-      raise(amount - player.money);
-
-      if (player.money >= amount) {
-        // Now can pay after liquidation
-        player.money -= amount;
-        if (recipient) recipient.money += amount;
-        return;
       }
+  }
 
-      // Bankruptcy: transfer assets to recipient or release to bank
-      await this.handleBankruptcy(player, recipient, amount);
+  /**
+   * Sets the DO alarm for the earliest pending deadline (auction end, debt deadline, trade
+   * expiry, a seat's autopilot or the current player running out of time).
+   * @returns A promise that resolves when the alarm is set.
+   */
+  async scheduleAlarm() {
+      if (!this.gameState) return;
+      const deadlines = [
+        this.gameState.auction?.endTime,
+        this.gameState.auction?.aiBidAt,
+        ...(this.gameState.debts || []).map(d => d.deadline),
+        ...(this.gameState.mortgageObligations || []).map(o => o.deadline),
+        ...(this.gameState.trades || []).map(t => t.expiresAt),
+        ...this.gameState.players.map(p => this.autopilotDueAt(p)),
+        timerDeadline(this.gameState, this.now()),
+      ].filter((t): t is number => typeof t === 'number');
+      if (deadlines.length) await this.state.storage.setAlarm(Math.min(...deadlines));
   }
 
   /**
@@ -916,10 +2222,10 @@ export class Game implements DurableObject {
     for (const sq of this.gameState.squares) {
       if ((sq.type === 'property' || sq.type === 'railroad' || sq.type === 'utility') && sq.ownerId === player.id) {
         // Buildings should already be sold during liquidation, but ensure clean
-        sq.houses = 0;
+        this.returnBuildings(sq);
         if (recipient) {
-          sq.ownerId = recipient.id;
-          // Keep mortgage flag as-is; recipient assumes mortgage
+          // The creditor settles any mortgages with the bank (interest or lift)
+          this.changeOwner(sq, recipient);
         } else {
           sq.ownerId = undefined;
           sq.mortgaged = false;
@@ -927,19 +2233,39 @@ export class Game implements DurableObject {
       }
     }
 
-    // Zero out cash and mark bankrupt
+    // Jail cards follow the properties: to the creditor, or back to their decks
+    if (recipient) {
+      recipient.chanceJailCard ||= player.chanceJailCard;
+      recipient.communityChestJailCard ||= player.communityChestJailCard;
+    } else {
+      if (player.chanceJailCard) this.returnJailCard('chance');
+      if (player.communityChestJailCard) this.returnJailCard('community-chest');
+    }
+    player.chanceJailCard = false;
+    player.communityChestJailCard = false;
+
+    // Zero out cash and mark bankrupt; whatever they still owed is written off
     player.money = 0;
     player.bankrupt = true;
+    if (this.gameState.debts) this.gameState.debts = this.gameState.debts.filter(d => d.debtorId !== player.id);
+    if (this.gameState.mortgageObligations) {
+      this.gameState.mortgageObligations = this.gameState.mortgageObligations.filter(o => o.playerId !== player.id);
+    }
 
     if (recipient) {
-      this.gameState.log.push(`${name} is bankrupt and transfers all assets to ${recipient.name}${debt ? ` (owed $${debt})` : ''}.`);
+      this.addLog('bankruptcy', `${name} is bankrupt and transfers all assets to ${recipient.name}${debt ? ` (owed $${debt})` : ''}.`, { actorId: player.id, amount: debt, params: { creditorId: recipient.id } });
     } else {
-      this.gameState.log.push(`${name} is bankrupt and returns all assets to the bank${debt ? ` (owed $${debt})` : ''}.`);
+      this.addLog('bankruptcy', `${name} is bankrupt and returns all assets to the bank${debt ? ` (owed $${debt})` : ''}.`, { actorId: player.id, amount: debt });
     }
 
-    // End turn if it was theirs
+    // End turn if it was theirs (after any other debtors have settled)
     if (this.gameState.players[this.gameState.currentPlayerId]?.id === player.id) {
-      this.gameState.turnState = 'ended';
+      if (this.gameState.phase === 'debt-resolution') {
+        this.gameState.pausedPhases = ['post-roll'];
+      } else {
+        this.gameState.pausedPhases = [];
+        this.setPhase('post-roll');
+      }
     }
   }
 
@@ -952,30 +2278,77 @@ export class Game implements DurableObject {
     if (this.gameState.status === 'finished') return;
     const alive = this.gameState.players.filter(p => !p.bankrupt);
     if (alive.length <= 1 && this.gameState.players.length > 0) {
-      const winner = alive[0] || this.gameState.players[0];
-      this.gameState.status = 'finished';
-      this.gameState.winnerId = winner.id;
-      this.gameState.log.push(`${winner.name} wins the game!`);
-      try {
-        // Update stats in D1 if available
-        // @ts-ignore
-        const env: Env = this.env as any;
-        // @ts-ignore
-        if (env && env.monopolyd1) {
-          for (const p of this.gameState.players) {
-            const isWinner = p.id === winner.id;
-            if (isWinner) {
-              await env.monopolyd1.prepare('UPDATE users SET wins = COALESCE(wins,0)+1 WHERE username=?')
-                .bind(p.name).run();
-            } else {
-              await env.monopolyd1.prepare('UPDATE users SET losses = COALESCE(losses,0)+1 WHERE username=?')
-                .bind(p.name).run();
-            }
+      await this.finishGame(alive[0] || this.gameState.players[0]);
+      return;
+    }
+
+    // House-rule limits, or no human left to play the AIs: the richest remaining player wins
+    const rules = this.gameState.rules;
+    const turnLimitHit = rules.maxTurns > 0 && this.gameState.turn >= rules.maxTurns;
+    const timeLimitHit = rules.timeLimitMinutes > 0 && this.gameState.startedAt !== undefined
+      && this.now() - this.gameState.startedAt >= rules.timeLimitMinutes * 60_000;
+    const humansOut = this.gameState.players.some(p => p.isHuman) && !alive.some(p => p.isHuman);
+    if ((turnLimitHit || timeLimitHit || humansOut) && alive.length > 0) {
+      const richest = alive.reduce((best, p) => (this.netWorth(p) > this.netWorth(best) ? p : best));
+      this.addLog('game', turnLimitHit
+        ? `Turn limit of ${rules.maxTurns} reached.`
+        : timeLimitHit
+          ? `Time limit of ${rules.timeLimitMinutes} minutes reached.`
+          : 'No human players are left.');
+      await this.finishGame(richest);
+    }
+  }
+
+  /**
+   * Calculates a player's net worth: cash plus property and building values.
+   * Mortgaged properties count at their mortgage value.
+   * @param player The player to value.
+   * @returns The player's net worth.
+   */
+  netWorth(player: Player): number {
+    if (!this.gameState) return player.money;
+    let worth = player.money;
+    for (const sq of this.gameState.squares) {
+      if (sq.ownerId !== player.id) continue;
+      worth += sq.mortgaged ? Math.floor((sq.price || 0) / 2) : (sq.price || 0);
+      worth += (sq.houses || 0) * (sq.houseCost || 0);
+    }
+    return worth;
+  }
+
+  /**
+   * Marks the game as finished and records win/loss stats.
+   * @param winner The winning player.
+   * @returns A promise that resolves when the game has been finished.
+   */
+  async finishGame(winner: Player) {
+    if (!this.gameState) return;
+    this.gameState.status = 'finished';
+    this.gameState.winnerId = winner.id;
+    syncTurnClock(this.gameState, this.now());
+    this.addLog('win', `${winner.name} wins the game!`, { actorId: winner.id });
+    // Reveal the dice seed so players can check it against the published commitment
+    this.gameState.rng.revealed = true;
+    this.addLog('game', `Dice seed revealed: ${this.gameState.rng.seed} (commitment ${this.gameState.rng.commitment}).`);
+    try {
+      // Update stats in D1 if available
+      // @ts-ignore
+      const env: Env = this.env as any;
+      // @ts-ignore
+      if (env && env.monopolyd1) {
+        for (const p of this.gameState.players) {
+          const isWinner = p.id === winner.id;
+          if (isWinner) {
+            await env.monopolyd1.prepare('UPDATE users SET wins = COALESCE(wins,0)+1 WHERE username=?')
+              .bind(p.name).run();
+          } else {
+            await env.monopolyd1.prepare('UPDATE users SET losses = COALESCE(losses,0)+1 WHERE username=?')
+              .bind(p.name).run();
           }
         }
-      } catch (e) {
-        // ignore in case D1 not bound in this env
       }
+    } catch (e) {
+      // ignore in case D1 not bound in this env
     }
   }
 
@@ -983,43 +2356,114 @@ export class Game implements DurableObject {
    * Makes a player pay rent to the owner of a square.
    * @param player The player paying rent.
    * @param square The square on which rent is being paid.
+   * @param cardMultiplier Set when a card sent the player here: railroads charge this many
+   * times the normal rent, utilities this many times a fresh dice throw.
    * @returns A promise that resolves when the rent is paid.
    */
-  async payRent(player: Player, square: Square) {
+  async payRent(player: Player, square: Square, cardMultiplier?: number) {
     if (!this.gameState || square.ownerId === undefined) return;
 
     const owner = this.gameState.players.find(p => p.id === square.ownerId);
     if (!owner || owner.bankrupt) return;
 
-    let rent = 0;
-    if (square.type === 'property' && square.rent) {
-        // Simplified rent calculation
-        rent = square.rent[square.houses];
-    } else if (square.type === 'railroad') {
-        const ownedRailroads = this.gameState.squares.filter(s => s.type === 'railroad' && s.ownerId === owner.id).length;
-        rent = 25 * Math.pow(2, ownedRailroads - 1);
-    } else if (square.type === 'utility') {
-        const ownedUtilities = this.gameState.squares.filter(s => s.type === 'utility' && s.ownerId === owner.id).length;
-        const diceRoll = this.gameState.dice[0] + this.gameState.dice[1];
-        rent = diceRoll * (ownedUtilities === 1 ? 4 : 10);
+    let diceTotal = this.gameState.dice[0] + this.gameState.dice[1];
+    if (square.type === 'utility' && cardMultiplier !== undefined && !square.mortgaged) {
+        // The card asks for a fresh throw rather than the roll that moved the player
+        const die1 = rollDie(this.gameState.rng);
+        const die2 = rollDie(this.gameState.rng);
+        this.addLog('roll', `${player.name} threw a ${die1} and a ${die2} for the utility.`, { actorId: player.id, squareIds: [square.id], params: { die1, die2, variant: 'utility' } });
+        diceTotal = die1 + die2;
     }
+    const rent = calculateRent(this.gameState.squares, square, { diceTotal, cardMultiplier });
+    if (rent <= 0) return;
 
-    this.gameState.log.push(`${player.name} pays $${rent} rent to ${owner.name}.`);
+    this.addLog('rent', `${player.name} pays $${rent} rent to ${owner.name}.`, { actorId: player.id, squareIds: [square.id], amount: rent, params: { ownerId: owner.id } });
     await this.pay(player, rent, owner);
   }
 
   /**
-   * Sends a player to jail.
-   * @param playerId The ID of the player to send to jail.
+   * Sends a player to jail. Going to jail ends the turn, doubles or not.
+   * @param playerId The ID of the player to send to jail.
+   */
+  goToJail(playerId: number) {
+      if (!this.gameState) return;
+      const player = this.gameState.players.find(p => p.id === playerId);
+      if (!player) return;
+
+      player.position = 10;
+      player.inJail = true;
+      player.jailTurns = 0;
+      this.gameState.doublesCount = 0;
+      this.setPhase('post-roll');
+  }
+
+  /**
+   * Lets a jailed player pay the fine before rolling, then roll normally.
+   * @param playerId The ID of the jailed player.
+   * @returns A promise that resolves when the fine is paid.
+   */
+  async payJailFine(playerId: number) {
+      if (!this.gameState) return;
+      const player = this.gameState.players.find(p => p.id === playerId);
+      if (!player || !player.inJail) return;
+
+      const fine = this.gameState.rules.jailFine;
+      if (player.money < fine) {
+        this.addLog('refused', `${player.name} cannot afford the $${fine} jail fine.`, { actorId: player.id, amount: fine });
+        return;
+      }
+      await this.payFee(player, fine);
+      this.releaseFromJail(player);
+      this.addLog('jail-release', `${player.name} paid $${fine} to get out of jail.`, { actorId: player.id, amount: fine, params: { variant: 'fine' } });
+  }
+
+  /**
+   * Lets a jailed player spend a Get Out of Jail Free card before rolling.
+   * The card goes back to the bottom of the deck it was drawn from.
+   * @param playerId The ID of the jailed player.
+   * @returns A promise that resolves when the card has been used.
+   */
+  async useJailCard(playerId: number) {
+      if (!this.gameState) return;
+      const player = this.gameState.players.find(p => p.id === playerId);
+      if (!player || !player.inJail) return;
+
+      let deckType: 'chance' | 'community-chest';
+      if (player.chanceJailCard) {
+        player.chanceJailCard = false;
+        deckType = 'chance';
+      } else if (player.communityChestJailCard) {
+        player.communityChestJailCard = false;
+        deckType = 'community-chest';
+      } else {
+        this.addLog('refused', `${player.name} has no Get Out of Jail Free card.`, { actorId: player.id });
+        return;
+      }
+      this.returnJailCard(deckType);
+      this.releaseFromJail(player);
+      this.addLog('jail-release', `${player.name} used a Get Out of Jail Free card.`, { actorId: player.id, params: { variant: 'card' } });
+  }
+
+  /**
+   * Frees a jailed player before their roll; the turn continues from pre-roll.
+   * @param player The player leaving jail.
+   */
+  releaseFromJail(player: Player) {
+      player.inJail = false;
+      player.jailTurns = 0;
+      this.setPhase('pre-roll');
+  }
+
+  /**
+   * Puts a Get Out of Jail Free card back at the bottom of its deck.
+   * @param deckType The deck the card was drawn from.
    */
-  goToJail(playerId: number) {
+  returnJailCard(deckType: 'chance' | 'community-chest') {
       if (!this.gameState) return;
-      const player = this.gameState.players.find(p => p.id === playerId);
-      if (!player) return;
-
-      player.position = 10;
-      player.inJail = true;
-      player.jailTurns = 0;
+      const cardData = deckType === 'chance' ? chanceCardData : communityChestCardData;
+      const deck = deckType === 'chance' ? this.gameState.chanceDeck : this.gameState.communityChestDeck;
+      const cardIndex = cardData.findIndex(c => c.action === 'get-out-of-jail-free');
+      if (cardIndex >= 0 && !deck.includes(cardIndex)) deck.push(cardIndex);
   }
 
   /**
@@ -1035,16 +2479,45 @@ export class Game implements DurableObject {
         next = (next + 1) % n;
         safety++;
       }
+      resetTurnClock(this.gameState, this.now());
       this.gameState.currentPlayerId = next;
       this.gameState.turn++;
-      this.gameState.turnState = 'rolling';
-      this.gameState.log.push(`It's now ${this.gameState.players[this.gameState.currentPlayerId].name}'s turn.`);
+      this.gameState.doublesCount = 0;
+      this.gameState.turnStartedAt = this.now();
+      this.setPhase(this.gameState.players[next].inJail ? 'jail-decision' : 'pre-roll');
+      this.addLog('turn', `It's now ${this.gameState.players[this.gameState.currentPlayerId].name}'s turn.`, { actorId: this.gameState.currentPlayerId });
+      if (this.gameState.turn % SNAPSHOT_INTERVAL_TURNS === 0) await this.saveTurnSnapshot();
 
       // If next player is NPC, take a simple automatic turn
+      await this.continueAiTurn();
+  }
+
+  /**
+   * Lets the current player act if it is an AI. Safe to call whenever the AI may have
+   * been waiting on someone else (an auction, another player's debt).
+   * During a replay the AI's recorded actions follow in the event log instead. With no
+   * human left in the game it ends, and while every human left has handed their seat to
+   * the AI the game waits for one of them to come back rather than play on unwatched.
+   * @returns A promise that resolves when the AI has done what it can.
+   */
+  async continueAiTurn() {
+      if (!this.gameState || this.replaying || this.gameState.status === 'finished') return;
       const p = this.gameState.players[this.gameState.currentPlayerId];
-      if (p && !p.isHuman) {
-        await this.aiTakeTurn(p.id);
+      if (!p || !this.isAiControlled(p)) return;
+      const humans = this.gameState.players.filter(q => q.isHuman && !q.bankrupt);
+      if (!humans.length) {
+        await this.checkEndGame();
+        return;
+      }
+      if (humans.every(q => q.autopilot)) {
+        if (!this.gameState.awaitingPlayers) {
+          this.gameState.awaitingPlayers = true;
+          this.addLog('connection', 'Every player is away; the game waits for one of them to come back.', { params: { variant: 'paused' } });
+        }
+        return;
       }
+      this.gameState.awaitingPlayers = undefined;
+      await this.aiTakeTurn(p.id);
   }
 
   /**
@@ -1062,14 +2535,14 @@ export class Game implements DurableObject {
     if (deck.length === 0) {
         // Reshuffle
         const newDeck = Array.from({ length: cardData.length }, (_, i) => i);
-        shuffle(newDeck);
+        shuffleWith(this.gameState.rng, newDeck);
         if (deckType === 'chance') this.gameState.chanceDeck = newDeck;
         else this.gameState.communityChestDeck = newDeck;
     }
 
     const cardIndex = deck.shift()!;
     const card = cardData[cardIndex];
-    this.gameState.log.push(`${player.name} drew: "${card.text}"`);
+    this.addLog('card', `${player.name} drew: "${card.text}"`, { actorId: player.id, params: { deck: deckType, card: card.text } });
 
     // Put card back at the bottom of the deck unless it's a keeper
     if (card.action !== 'get-out-of-jail-free') {
@@ -1094,29 +2567,49 @@ export class Game implements DurableObject {
               player.money += card.value;
               break;
           case 'pay':
-              await this.pay(player, card.value);
+              await this.payFee(player, card.value);
               break;
           case 'collect-from-all':
               for (const p of this.gameState.players) {
-                  if (p.id !== player.id) {
+                  if (p.id !== player.id && !p.bankrupt) {
                       await this.pay(p, card.value, player);
                   }
               }
               break;
           case 'pay-all':
               for (const p of this.gameState.players) {
-                  if (p.id !== player.id) {
+                  if (p.id !== player.id && !p.bankrupt) {
                       await this.pay(player, card.value, p);
                   }
               }
               break;
           case 'advance':
               const amount = (card.value - player.position + 40) % 40;
-              await this.movePlayer(player.id, amount);
+              await this.movePlayer(player.id, amount, card.collectGo ?? true);
+              break;
+          case 'advance-nearest-railroad':
+              await this.advanceToNearest(player, 'railroad', card.collectGo ?? true, card.value);
+              break;
+          case 'advance-nearest-utility':
+              await this.advanceToNearest(player, 'utility', card.collectGo ?? true, card.value);
+              break;
+          case 'go-back':
+              await this.movePlayer(player.id, -card.value, card.collectGo ?? false);
               break;
+          case 'repairs': {
+              let cost = 0;
+              for (const sq of this.gameState.squares) {
+                  if (sq.ownerId !== player.id || !sq.houses) continue;
+                  cost += sq.houses === HOTEL ? (card.perHotel ?? 0) : sq.houses * (card.perHouse ?? 0);
+              }
+              if (cost > 0) {
+                  this.addLog('payment', `${player.name} pays $${cost} for repairs.`, { actorId: player.id, amount: cost, params: { variant: 'repairs' } });
+                  await this.payFee(player, cost);
+              }
+              break;
+          }
           case 'go-to-jail':
               this.goToJail(player.id);
-              this.gameState.turnState = 'ended';
               break;
           case 'get-out-of-jail-free':
               if (deckType === 'chance') player.chanceJailCard = true;
@@ -1124,7 +2617,7 @@ export class Game implements DurableObject {
               break;
           // Other cases can be added here
           default:
-              this.gameState.log.push(`Card action '${card.action}' not yet implemented.`);
+              this.addLog('card', `Card action '${card.action}' not yet implemented.`, { actorId: player.id, params: { variant: 'unknown' } });
       }
   }
 
@@ -1139,65 +2632,40 @@ export class Game implements DurableObject {
     if (!player) return;
 
     const square = this.gameState.squares[player.position];
-    if (this.gameState.turnState === 'LandedOnUnownedProperty' && (square.type === 'property' || square.type === 'railroad' || square.type === 'utility') && square.ownerId === undefined) {
+    if (this.gameState.phase === 'resolve-landing' && (square.type === 'property' || square.type === 'railroad' || square.type === 'utility') && square.ownerId === undefined) {
       if (player.money >= (square.price ?? 0)) {
         await this.pay(player, square.price ?? 0);
         square.ownerId = playerId;
-        this.gameState.log.push(`${player.name} bought ${square.name} for $${square.price}.`);
+        this.addLog('buy', `${player.name} bought ${square.name} for $${square.price}.`, { actorId: player.id, squareIds: [square.id], amount: square.price });
         // If doubles were rolled, player gets to roll again
-        if (this.gameState.doublesCount > 0) {
-          this.gameState.turnState = 'rolling';
-        } else {
-          this.gameState.turnState = 'ended';
-        }
+        this.settleRoll();
       } else {
-        this.gameState.log.push(`${player.name} cannot afford to buy ${square.name}. Starting auction.`);
+        this.addLog('buy', `${player.name} cannot afford to buy ${square.name}.${this.gameState.rules.auctions ? ' Starting auction.' : ''}`, { actorId: player.id, squareIds: [square.id], amount: square.price, params: { variant: 'unaffordable' } });
         await this.startAuction(square.id);
       }
     }
   }
 
   /**
-   * Gives a specified amount of money from one player to another.
-   * @param fromId The ID of the player giving money.
-   * @param toId The ID of the player receiving money.
-   * @param amount The amount of money to transfer.
-   * @returns A promise that resolves when the transfer is complete.
+   * Offers money to another player as a gift. The receiver must accept it like a trade.
+   * @param fromId The ID of the player giving the money.
+   * @param toId The ID of the player receiving the money.
+   * @param amount The amount of money to give.
+   * @returns A promise that resolves when the gift is offered.
    */
   async giveMoney(fromId: number, toId: number, amount: number) {
-    if (!this.gameState) return;
-    amount = Math.max(0, Math.floor(Number(amount) || 0));
-    const from = this.gameState.players.find(p => p.id === fromId);
-    const to = this.gameState.players.find(p => p.id === toId);
-    if (!from || !to || amount <= 0) return;
-    if (from.money < amount) {
-      this.gameState.log.push(`${from.name} tried to give $${amount} but cannot afford it.`);
-      return;
-    }
-    from.money -= amount;
-    to.money += amount;
-    this.gameState.log.push(`${from.name} gave $${amount} to ${to.name}.`);
+    await this.proposeTrade(fromId, { legs: [{ fromId, toId: Number(toId), money: amount }] });
   }
 
   /**
-   * Transfers a property from one player to another.
+   * Offers a property to another player as a gift. The receiver must accept it like a trade.
    * @param fromId The ID of the player giving the property.
    * @param squareId The ID of the square being transferred.
    * @param toId The ID of the player receiving the property.
-   * @returns A promise that resolves when the transfer is complete.
+   * @returns A promise that resolves when the gift is offered.
    */
   async transferProperty(fromId: number, squareId: number, toId: number) {
-    if (!this.gameState) return;
-    const sq = this.gameState.squares.find(s => s.id === squareId);
-    const from = this.gameState.players.find(p => p.id === fromId);
-    const to = this.gameState.players.find(p => p.id === toId);
-    if (!sq || !from || !to) return;
-    if (sq.ownerId !== fromId) {
-      this.gameState.log.push(`${from.name} does not own ${sq.name}.`);
-      return;
-    }
-    sq.ownerId = toId;
-    this.gameState.log.push(`${from.name} transferred ${sq.name} to ${to.name}.`);
+    await this.proposeTrade(fromId, { legs: [{ fromId, toId: Number(toId), properties: [squareId] }] });
   }
 
   /**
@@ -1295,7 +2763,7 @@ export class Game implements DurableObject {
         id,
         name: agent.name,
         color: agent.color,
-        money: 1500,
+        money: this.gameState.rules.startingCash,
         position: 0,
         inJail: false,
         jailTurns: 0,
@@ -1308,7 +2776,7 @@ export class Game implements DurableObject {
       };
 
       this.gameState.players.push(npc);
-      this.gameState.log.push(`${npc.name} has joined the game.`);
+      this.addLog('join', `${npc.name} has joined the game.`, { actorId: npc.id });
     }
 
     console.log(`[AI] Game now has ${this.gameState.players.length} players`);
@@ -1334,7 +2802,7 @@ export class Game implements DurableObject {
         id,
         name: aiNames[nameIndex % aiNames.length] || `AI ${id + 1}`,
         color: ['Aqua','Fuchsia','Gray','Lime','Maroon','Navy','Olive','Teal'][id % 8].toLowerCase(),
-        money: 1500,
+        money: this.gameState.rules.startingCash,
         position: 0,
         inJail: false,
         jailTurns: 0,
@@ -1345,12 +2813,14 @@ export class Game implements DurableObject {
         modelId,
       };
       this.gameState.players.push(npc);
-      this.gameState.log.push(`${npc.name} has joined the game.`);
+      this.addLog('join', `${npc.name} has joined the game.`, { actorId: npc.id });
     }
   }
 
   /**
    * Simulates a turn for an AI player using intelligent decision making.
+   * The AI acts for as long as the phase is one it can settle on its own and stops
+   * when the turn is over or waiting on others (auction, trade window).
    * @param playerId The ID of the AI player.
    * @returns A promise that resolves when the AI has taken its turn.
    */
@@ -1359,30 +2829,100 @@ export class Game implements DurableObject {
     const player = this.gameState.players.find(p => p.id === playerId);
     if (!player) return;
 
-    // Roll the dice
-    await this.rollDice(playerId);
-
-    // Check if we landed on an unowned property
-    const sq = this.gameState.squares[player.position];
-    if ((sq.type === 'property' || sq.type === 'railroad' || sq.type === 'utility') && sq.ownerId === undefined) {
-      // Use AI to decide whether to buy
-      const shouldBuy = await this.aiDecideBuy(player, sq);
-      if (shouldBuy && player.money >= (sq.price ?? 0)) {
-        await this.buyProperty(playerId);
-      } else if (player.money >= (sq.price ?? 0)) {
-        // Decline to buy - will trigger auction
-        await this.declineToBuyProperty(playerId);
+    try {
+      // Bounded in case a phase never settles; three doubles end the turn well before this
+      for (let step = 0; step < 12; step++) {
+        if (this.gameState.status === 'finished' || this.gameState.currentPlayerId !== playerId) return;
+        switch (this.gameState.phase) {
+          case 'pre-roll':
+            await this.aiAct(playerId, 'rollDice');
+            break;
+          case 'jail-decision': {
+            // Leaving jail moves the turn to pre-roll, so the next step rolls
+            const ai = this.aiFor(player);
+            if (ai.shouldUseJailCard(this.gameState)) await this.aiAct(playerId, 'useJailCard');
+            else if (ai.shouldPayJailFine(this.gameState)) await this.aiAct(playerId, 'payJailFine');
+            else await this.aiAct(playerId, 'rollDice');
+            break;
+          }
+          case 'resolve-landing': {
+            // Use AI to decide whether to buy; declining sends the property to auction
+            const sq = this.gameState.squares[player.position];
+            const shouldBuy = player.money >= (sq.price ?? 0) && await this.aiDecideBuy(player, sq);
+            await this.aiAct(playerId, shouldBuy ? 'buyProperty' : 'declineToBuyProperty');
+            break;
+          }
+          case 'post-roll':
+            if (!player.bankrupt) await this.aiConsiderBuilding(player);
+            // Building may have started an auction for scarce houses; the alarm resumes the turn
+            if (this.gameState.phase === 'post-roll') await this.aiAct(playerId, 'endTurn');
+            return;
+          default:
+            return;
+        }
       }
+    } catch (err) {
+      // Never let an AI mistake break the human action that handed it the turn
+      if (!(err instanceof PhaseError)) throw err;
+      console.error(`AI ${player.name} attempted an illegal action:`, err.message);
     }
+  }
 
-    // Check if we should build houses (if turn not ended yet)
-    if (this.gameState.turnState !== 'ended') {
-      await this.aiConsiderBuilding(player);
-    }
+  /**
+   * The AI that plays a seat, at the difficulty its player chose.
+   * @param player The seat's player.
+   */
+  aiFor(player: Player): MonopolyAI {
+    return new MonopolyAI(player.id, player.aiDifficulty ?? 'medium', player.personality);
+  }
+
+  /**
+   * Performs an action on behalf of an AI player, or of a player out of time, with the
+   * same checks and recording as an action sent by a client.
+   * @param playerId The ID of the player.
+   * @param action The action to perform.
+   * @param payload The action payload, if any.
+   * @returns A promise that resolves when the action has been applied.
+   */
+  async aiAct(playerId: number, action: GameEventType, payload?: any) {
+    this.assertActionAllowed(playerId, action);
+    await this.recordAndApply(playerId, { action, payload });
+  }
 
-    // End turn if still in acting state
-    if (this.gameState.turnState === 'ended') {
-      // Turn will auto-advance via nextTurn
+  /**
+   * Raises funds for an AI debtor: sells buildings from its most developed property
+   * first, then mortgages, and pays once it can or declares bankruptcy if it cannot.
+   * Mortgaged properties it received are lifted when cash is plentiful, otherwise
+   * it pays the interest (or leaves it to the deadline if it cannot).
+   * @param player The AI player in debt.
+   * @returns A promise that resolves when the AI's debts are settled.
+   */
+  async aiResolveDebt(player: Player) {
+    if (!this.gameState) return;
+    const owed = () => this.debtsOf(player.id).reduce((sum, d) => sum + d.amount, 0);
+    try {
+      for (const o of this.obligationsOf(player.id)) {
+        const sq = this.gameState.squares[o.squareId];
+        const lift = player.money - this.unmortgageCost(sq) >= 300;
+        if (lift || player.money >= this.mortgageInterest(sq) + owed()) {
+          await this.aiAct(player.id, 'resolveMortgage', { squareId: sq.id, lift });
+        }
+      }
+      while (owed() > 0 && player.money < owed()) {
+        const owned = this.gameState.squares.filter(s => s.ownerId === player.id);
+        const bank = this.gameState.bank;
+        const built = owned
+          .filter(s => sellError(this.gameState!.squares, s, player.id) === null && (s.houses !== HOTEL || bank.houses >= 4))
+          .sort((a, b) => (b.houses || 0) - (a.houses || 0))[0];
+        const mortgageable = owned.find(s => !s.mortgaged && (s.houses || 0) === 0 && (s.price || 0) > 0);
+        if (built) await this.aiAct(player.id, 'sellHouse', { squareId: built.id });
+        else if (mortgageable) await this.aiAct(player.id, 'mortgage', { squareId: mortgageable.id });
+        else break;
+      }
+      if (owed() > 0) await this.aiAct(player.id, player.money >= owed() ? 'payDebt' : 'declareBankruptcy');
+    } catch (err) {
+      if (!(err instanceof PhaseError)) throw err;
+      console.error(`AI ${player.name} could not settle its debts:`, err.message);
     }
   }
 
@@ -1454,32 +2994,9 @@ export class Game implements DurableObject {
   async aiConsiderBuilding(player: Player) {
     if (!this.gameState) return;
 
-    // Find complete monopolies
-    const ownedSquares = this.gameState.squares.filter(s => s.ownerId === player.id && s.type === 'property');
-    const groups = new Set(ownedSquares.map(s => s.group).filter(Boolean));
-
-    for (const group of groups) {
-      const groupSquares = this.gameState.squares.filter(s => s.group === group);
-      const allOwned = groupSquares.every(s => s.ownerId === player.id);
-
-      if (allOwned) {
-        // Find property with fewest houses that isn't mortgaged
-        const buildable = groupSquares
-          .filter(s => !s.mortgaged && (s.houses || 0) < 5)
-          .sort((a, b) => (a.houses || 0) - (b.houses || 0));
-
-        if (buildable.length > 0) {
-          const target = buildable[0];
-          const cost = target.houseCost || 0;
-
-          // Only build if we have plenty of money (keep $300 reserve)
-          if (player.money - cost >= 300) {
-            await this.buildHouse(player.id, target.id);
-            this.gameState.log.push(`${player.name} (AI) built on ${target.name}.`);
-          }
-        }
-      }
-    }
+    // The AI picks the monopoly where the next house adds the most rent per dollar
+    const plan = this.aiFor(player).shouldBuildHouses(this.gameState);
+    if (plan) await this.aiAct(player.id, 'buildHouse', { squareId: plan.squareId });
   }
 
   /**
@@ -1534,7 +3051,7 @@ export class Game implements DurableObject {
         await this.addNpc(1, modelId);
         console.log(`[DEBUG autoFillAIAgents] Added NPC ${i+1}/${toAdd}`);
       }
-      this.gameState.log.push(`Added ${toAdd} AI agent${toAdd > 1 ? 's' : ''} to fill the game.`);
+      this.addLog('game', `Added ${toAdd} AI agent${toAdd > 1 ? 's' : ''} to fill the game.`, { params: { ai: toAdd } });
       console.log(`[DEBUG autoFillAIAgents] Final player count: ${this.gameState.players.length}`);
     } else {
       console.log(`[DEBUG autoFillAIAgents] No agents needed, already at ${currentCount} players`);
@@ -1555,7 +3072,7 @@ export class Game implements DurableObject {
     console.log(`[START GAME] Total: ${totalPlayers}, Current: ${currentCount}, Human: ${humanCount}`);
 
     if (currentCount >= totalPlayers) {
-      this.gameState.log.push(`Game already has ${currentCount} players!`);
+      this.addLog('refused', `Game already has ${currentCount} players!`, { params: { players: currentCount } });
       await this.updateAndBroadcast();
       return;
     }
@@ -1565,7 +3082,7 @@ export class Game implements DurableObject {
 
     await this.autoFillAIAgents(totalPlayers, totalPlayers);
 
-    this.gameState.log.push(`🎮 Game started with ${totalPlayers} players (${humanCount} human, ${aiNeeded} AI)!`);
+    this.addLog('game', `🎮 Game started with ${totalPlayers} players (${humanCount} human, ${aiNeeded} AI)!`, { params: { variant: 'started', players: totalPlayers, humans: humanCount, ai: aiNeeded } });
     await this.updateAndBroadcast();
   }
 
@@ -1583,7 +3100,7 @@ export class Game implements DurableObject {
         id,
         name: `Hoomun ${id + 1}`,
         color: ['orange','purple','red','silver','black','green'][id % 6],
-        money: 1500,
+        money: this.gameState.rules.startingCash,
         position: 0,
         inJail: false,
         jailTurns: 0,
@@ -1593,12 +3110,14 @@ export class Game implements DurableObject {
         bankrupt: false,
       };
       this.gameState.players.push(p);
-      this.gameState.log.push(`${p.name} (hoomun) joined.`);
+      this.addLog('join', `${p.name} (hoomun) joined.`, { actorId: p.id });
     }
   }
 
   /**
-   * Builds a house on a property.
+   * Builds a house on a property, or a hotel on a property with four houses.
+   * Building must be even across the color group. When more players could build than
+   * the bank has buildings left, the building goes to auction instead.
    * @param playerId The ID of the player building the house.
    * @param squareId The ID of the square to build on.
    * @returns A promise that resolves when the house is built.
@@ -1608,20 +3127,35 @@ export class Game implements DurableObject {
     const sq = this.gameState.squares.find(s => s.id === squareId);
     const player = this.gameState.players.find(p => p.id === playerId);
     if (!sq || !player || sq.type !== 'property') return;
-    if (sq.ownerId !== playerId || sq.mortgaged) return;
-    if (!sq.group) return; // Validate group exists
-    const groupSquares = this.gameState.squares.filter(s => s.group === sq.group);
-    if (!groupSquares.every(s => s.ownerId === playerId)) return;
-    if (sq.houses >= 5) return;
+    const error = buildError(this.gameState.squares, sq, playerId);
+    if (error) {
+      this.addLog('refused', `${player.name} cannot build on ${sq.name}: ${error}.`, { actorId: player.id, squareIds: [sq.id] });
+      return;
+    }
     const cost = sq.houseCost || 0;
     if (player.money < cost) return;
+
+    const building = nextBuilding(sq);
+    const stock = building === 'hotel' ? this.gameState.bank.hotels : this.gameState.bank.houses;
+    if (stock === 0) {
+      this.addLog('refused', `The bank has no ${building}s left.`, { actorId: player.id, squareIds: [sq.id], params: { building } });
+      return;
+    }
+    const builders = this.gameState.players.filter(p => !p.bankrupt).map(p => p.id);
+    if (buildingDemand(this.gameState.squares, builders, building) > stock) {
+      await this.startBuildingAuction(player, sq, building);
+      return;
+    }
+
     player.money -= cost;
-    sq.houses += 1;
-    this.gameState.log.push(`${player.name} built on ${sq.name}. (${sq.houses === 5 ? 'Hotel' : 'House ' + sq.houses})`);
+    this.placeBuilding(sq);
+    this.addLog('build', `${player.name} built on ${sq.name}. (${sq.houses === HOTEL ? 'Hotel' : 'House ' + sq.houses})`, { actorId: player.id, squareIds: [sq.id], amount: cost, params: { houses: sq.houses || 0 } });
   }
 
   /**
-   * Sells a house from a property.
+   * Sells a house or hotel from a property back to the bank for half its cost.
+   * Selling must be even across the color group, and breaking a hotel back into
+   * four houses needs four houses in the bank.
    * @param playerId The ID of the player selling the house.
    * @param squareId The ID of the square to sell from.
    * @returns A promise that resolves when the house is sold.
@@ -1631,12 +3165,54 @@ export class Game implements DurableObject {
     const sq = this.gameState.squares.find(s => s.id === squareId);
     const player = this.gameState.players.find(p => p.id === playerId);
     if (!sq || !player || sq.type !== 'property') return;
-    if (sq.ownerId !== playerId) return;
-    if (sq.houses <= 0) return;
+    const error = sellError(this.gameState.squares, sq, playerId);
+    if (error) {
+      this.addLog('refused', `${player.name} cannot sell from ${sq.name}: ${error}.`, { actorId: player.id, squareIds: [sq.id] });
+      return;
+    }
+    const bank = this.gameState.bank;
+    if (sq.houses === HOTEL && bank.houses < 4) {
+      this.addLog('refused', `${player.name} cannot break up the hotel on ${sq.name}: the bank has only ${bank.houses} houses.`, { actorId: player.id, squareIds: [sq.id] });
+      return;
+    }
     const refund = Math.floor((sq.houseCost || 0) / 2);
     player.money += refund;
+    if (sq.houses === HOTEL) {
+      bank.hotels++;
+      bank.houses -= 4;
+    } else {
+      bank.houses++;
+    }
     sq.houses -= 1;
-    this.gameState.log.push(`${player.name} sold building on ${sq.name}.`);
+    this.addLog('sell-building', `${player.name} sold building on ${sq.name}.`, { actorId: player.id, squareIds: [sq.id], amount: refund });
+  }
+
+  /**
+   * Takes the next building for a square from the bank. A hotel hands its four houses back.
+   * @param sq The property being built on.
+   */
+  placeBuilding(sq: Square) {
+    if (!this.gameState) return;
+    const bank = this.gameState.bank;
+    if (nextBuilding(sq) === 'hotel') {
+      bank.hotels--;
+      bank.houses += 4;
+    } else {
+      bank.houses--;
+    }
+    sq.houses = (sq.houses || 0) + 1;
+  }
+
+  /**
+   * Clears every building from a square and returns them to the bank.
+   * @param sq The property to clear.
+   */
+  returnBuildings(sq: Square) {
+    if (!this.gameState) return;
+    const level = sq.houses || 0;
+    if (level === HOTEL) this.gameState.bank.hotels++;
+    else this.gameState.bank.houses += level;
+    sq.houses = 0;
   }
 
   /**
@@ -1654,7 +3230,7 @@ export class Game implements DurableObject {
     const value = Math.floor((sq.price || 0) / 2);
     player.money += value;
     sq.mortgaged = true;
-    this.gameState.log.push(`${player.name} mortgaged ${sq.name} for $${value}.`);
+    this.addLog('mortgage', `${player.name} mortgaged ${sq.name} for $${value}.`, { actorId: player.id, squareIds: [sq.id], amount: value });
   }
 
   /**
@@ -1669,79 +3245,281 @@ export class Game implements DurableObject {
     const player = this.gameState.players.find(p => p.id === playerId);
     if (!sq || !player) return;
     if (sq.ownerId !== playerId || !sq.mortgaged) return;
-    const cost = Math.ceil((sq.price || 0) * 0.55);
+    const cost = this.unmortgageCost(sq);
     if (player.money < cost) return;
     player.money -= cost;
     sq.mortgaged = false;
-    this.gameState.log.push(`${player.name} unmortgaged ${sq.name} for $${cost}.`);
+    // Lifting the mortgage also settles any interest owed from receiving it
+    if (this.gameState.mortgageObligations) {
+      this.gameState.mortgageObligations = this.gameState.mortgageObligations.filter(o => o.squareId !== sq.id);
+    }
+    this.addLog('unmortgage', `${player.name} unmortgaged ${sq.name} for $${cost}.`, { actorId: player.id, squareIds: [sq.id], amount: cost });
   }
 
   /**
-   * Proposes a trade between two players.
+   * Proposes a trade. Several trades may be open at once; each is validated now and
+   * again when accepted, and expires after the rules' trade expiry.
    * @param initiatorId The ID of the player proposing the trade.
-   * @param payload The details of the trade proposal.
-   * @returns A promise that resolves when the trade is proposed.
+   * @param payload Either `legs` between any number of players, or a two-player trade
+   * as `recipientId`, `offer` and `request`.
+   * @param parentId The trade being countered, for counter-offers.
+   * @returns A promise that resolves to the new trade, or undefined if it was refused.
    */
-  async proposeTrade(initiatorId: number, payload: any) {
+  async proposeTrade(initiatorId: number, payload: any, parentId?: string): Promise<Trade | undefined> {
     if (!this.gameState) return;
-    const recipientId = Number(payload?.recipientId);
-    if (recipientId === undefined) return;
-    this.gameState.trade = {
+    const initiator = this.gameState.players.find(p => p.id === initiatorId);
+    if (!initiator) return;
+
+    const legs = payload?.legs !== undefined
+      ? normalizeTradeLegs(payload.legs)
+      : legsFromOffer(initiatorId, Number(payload?.recipientId), normalizeTradeSide(payload?.offer), normalizeTradeSide(payload?.request));
+    const participants = tradeParticipants(initiatorId, legs);
+    const error = participants.length < 2 ? 'no other player takes part' : this.tradeError(legs);
+    if (error) {
+      this.addLog('refused', `${initiator.name}'s trade was refused: ${error}.`, { actorId: initiator.id });
+      return;
+    }
+
+    const now = this.now();
+    this.gameState.tradeSeq = (this.gameState.tradeSeq || 0) + 1;
+    const trade: Trade = {
+      id: `trade-${this.gameState.tradeSeq}`,
       initiatorId,
-      recipientId,
-      offer: {
-        money: Math.max(0, Number(payload?.offer?.money) || 0),
-        properties: Array.isArray(payload?.offer?.properties) ? payload.offer.properties : [],
-        jailCards: Math.max(0, Number(payload?.offer?.jailCards) || 0),
-      },
-      request: {
-        money: Math.max(0, Number(payload?.request?.money) || 0),
-        properties: Array.isArray(payload?.request?.properties) ? payload.request.properties : [],
-        jailCards: Math.max(0, Number(payload?.request?.jailCards) || 0),
-      },
+      participants,
+      legs,
+      acceptedBy: [initiatorId],
+      parentId,
+      status: 'open',
+      createdAt: now,
+      expiresAt: now + this.gameState.rules.tradeExpiryMs,
     };
-    this.gameState.log.push(`Trade proposed by Player ${initiatorId} to Player ${recipientId}.`);
+    (this.gameState.trades ||= []).push(trade);
+    const others = this.tradeNames(participants.filter(id => id !== initiatorId));
+    const params = { tradeId: trade.id, players: others };
+    if (parentId) this.addLog('trade', `${initiator.name} countered with a new offer to ${others}.`, { actorId: initiator.id, params: { ...params, variant: 'countered' } });
+    else if (giftGivers(legs).length) this.addLog('trade', `${initiator.name} offered a gift to ${others}.`, { actorId: initiator.id, params: { ...params, variant: 'gift' } });
+    else this.addLog('trade', `Trade proposed by ${initiator.name} to ${others}.`, { actorId: initiator.id, params: { ...params, variant: 'proposed' } });
+    await this.scheduleAlarm();
+    // The current player's own offer pauses their turn until it is answered. Debts keep
+    // their own phase, so debtors can still raise funds while the trade is open
+    const phase = this.gameState.phase;
+    if (this.holdsTurn(trade) && phase !== 'trade-window' && phase !== 'debt-resolution') {
+      this.interruptPhase('trade-window');
+    }
+    return trade;
   }
 
   /**
-   * Accepts a proposed trade.
-   * @param actorId The ID of the player accepting the trade (must be the recipient).
-   * @returns A promise that resolves when the trade is completed.
+   * Answers a trade with a counter-offer. The original trade closes as countered and the
+   * new one, proposed by the counterer, references it as its parent.
+   * @param actorId The ID of the player countering (any participant but the initiator).
+   * @param payload The counter-offer: `tradeId` plus the new trade, as for proposeTrade.
+   * A two-player counter without a `recipientId` goes back to the initiator.
+   * @returns A promise that resolves when the counter-offer is made.
    */
-  async acceptTrade(actorId: number) {
-    if (!this.gameState || !this.gameState.trade) return;
-    const t = this.gameState.trade;
-    if (actorId !== t.recipientId) return;
-    const from = this.gameState.players.find(p => p.id === t.initiatorId);
-    const to = this.gameState.players.find(p => p.id === t.recipientId);
-    if (!from || !to) return;
-    from.money -= t.offer.money; to.money += t.offer.money;
-    to.money -= t.request.money; from.money += t.request.money;
-    for (const pid of t.offer.properties) {
-      const sq = this.gameState.squares.find(s => s.id === pid); if (sq && sq.ownerId === from.id) sq.ownerId = to.id;
+  async counterTrade(actorId: number, payload: any) {
+    if (!this.gameState) return;
+    const parent = this.findTrade(payload?.tradeId, t => t.participants.includes(actorId) && t.initiatorId !== actorId);
+    if (!parent) return;
+    const counter = await this.proposeTrade(actorId, { recipientId: parent.initiatorId, ...payload }, parent.id);
+    if (counter) this.closeTrade(parent, 'countered');
+  }
+
+  /**
+   * Accepts a trade. Once every participant has accepted, all legs execute together;
+   * if any leg can no longer be delivered, the trade fails and nothing changes hands.
+   * @param actorId The ID of the participant accepting the trade.
+   * @param tradeId The trade to accept; defaults to the latest one awaiting the actor.
+   * @returns A promise that resolves when the acceptance is recorded.
+   */
+  async acceptTrade(actorId: number, tradeId?: string) {
+    if (!this.gameState) return;
+    const t = this.findTrade(tradeId, t => t.participants.includes(actorId) && !t.acceptedBy.includes(actorId));
+    if (!t) return;
+    const actor = this.gameState.players.find(p => p.id === actorId);
+
+    const error = this.tradeError(t.legs);
+    if (error) {
+      this.addLog('trade', `Trade between ${this.tradeNames(t.participants)} failed: ${error}.`, { actorId, params: { tradeId: t.id, players: this.tradeNames(t.participants), variant: 'failed' } });
+      this.closeTrade(t, 'failed', error);
+      return;
+    }
+
+    t.acceptedBy.push(actorId);
+    const waiting = t.participants.filter(id => !t.acceptedBy.includes(id));
+    if (waiting.length) {
+      this.addLog('trade', `${actor?.name} accepted the trade; waiting on ${this.tradeNames(waiting)}.`, { actorId, params: { tradeId: t.id, players: this.tradeNames(waiting), variant: 'accepted' } });
+      return;
     }
-    for (const pid of t.request.properties) {
-      const sq = this.gameState.squares.find(s => s.id === pid); if (sq && sq.ownerId === to.id) sq.ownerId = from.id;
+    this.executeTrade(t);
+  }
+
+  /**
+   * Carries out every leg of a fully accepted trade. Each leg is checked again as it
+   * goes; if one cannot be delivered, everything already moved is put back.
+   * @param t The trade to execute.
+   */
+  executeTrade(t: Trade) {
+    if (!this.gameState) return;
+    const saved = structuredClone({
+      players: this.gameState.players,
+      squares: this.gameState.squares,
+      mortgageObligations: this.gameState.mortgageObligations,
+      logLength: this.gameState.log.length,
+      logSeq: this.gameState.logSeq,
+    });
+
+    for (const leg of t.legs) {
+      const from = this.gameState.players.find(p => p.id === leg.fromId)!;
+      const to = this.gameState.players.find(p => p.id === leg.toId)!;
+      const error = tradeSideError(this.gameState.squares, from, leg) ?? this.transferJailCards(from, to, leg.jailCards);
+      if (error) {
+        this.gameState.players = saved.players;
+        this.gameState.squares = saved.squares;
+        this.gameState.mortgageObligations = saved.mortgageObligations;
+        this.gameState.log.length = saved.logLength;
+        this.gameState.logSeq = saved.logSeq;
+        this.addLog('trade', `Trade between ${this.tradeNames(t.participants)} failed and was rolled back: ${error}.`, { params: { tradeId: t.id, players: this.tradeNames(t.participants), variant: 'failed' } });
+        this.closeTrade(t, 'failed', error);
+        return;
+      }
+      from.money -= leg.money;
+      to.money += leg.money;
+      for (const id of leg.properties) this.changeOwner(this.gameState.squares[id], to);
     }
-    this.gameState.trade = undefined;
-    this.gameState.log.push(`Trade completed between ${from.name} and ${to.name}.`);
+    this.addLog('trade', `Trade completed between ${this.tradeNames(t.participants)}.`, { params: { tradeId: t.id, players: this.tradeNames(t.participants), variant: 'completed' } });
+    this.closeTrade(t, 'accepted');
   }
 
   /**
-   * Rejects a proposed trade.
-   * @param actorId The ID of the player rejecting the trade (must be the recipient).
+   * Rejects a trade, or withdraws it when sent by the initiator. One rejection closes
+   * the trade for every participant.
+   * @param actorId The ID of the participant rejecting the trade or the initiator withdrawing it.
+   * @param tradeId The trade to close; defaults to the latest one involving the actor.
    * @returns A promise that resolves when the trade is rejected.
    */
-  async rejectTrade(actorId: number) {
-    if (!this.gameState || !this.gameState.trade) return;
-    const t = this.gameState.trade;
-    if (actorId !== t.recipientId) return;
-    this.gameState.trade = undefined;
-    this.gameState.log.push(`Trade rejected.`);
+  async rejectTrade(actorId: number, tradeId?: string) {
+    if (!this.gameState) return;
+    const t = this.findTrade(tradeId, t => t.participants.includes(actorId));
+    if (!t) return;
+    const actor = this.gameState.players.find(p => p.id === actorId);
+    this.addLog('trade', actorId === t.initiatorId ? `Trade withdrawn by ${actor?.name}.` : `Trade rejected by ${actor?.name}.`,
+      { actorId, params: { tradeId: t.id, variant: actorId === t.initiatorId ? 'withdrawn' : 'rejected' } });
+    this.closeTrade(t, actorId === t.initiatorId ? 'withdrawn' : 'rejected');
+  }
+
+  /**
+   * Validates a trade's legs against the holdings and the gift rules. Anyone who gives
+   * without getting anything back is making a gift, only allowed when the rules say so.
+   * While a player owes money or has a mortgaged property to settle, they may not give
+   * away more than they get back, so a trade cannot hide their assets from the creditor.
+   * @param legs The trade's legs.
+   * @returns The reason the trade is invalid, or null if it is valid.
+   */
+  tradeError(legs: TradeLeg[]): string | null {
+    if (!this.gameState) return null;
+    const error = tradeLegsError(this.gameState.squares, this.gameState.players, legs);
+    if (error) return error;
+    if (giftGivers(legs).length && !this.gameState.rules.giftsAllowed) return 'gifts are not allowed';
+    for (const id of new Set(legs.map(leg => leg.fromId))) {
+      if (!this.gameState.debts?.some(d => d.debtorId === id) && !this.obligationsOf(id).length) continue;
+      const { gives, gets } = tradeBalance(this.gameState.squares, legs, id, this.gameState.rules.jailFine);
+      if (gets < gives) return `${this.tradeNames([id])} must settle their debts before giving away more than they get back`;
+    }
+    return null;
+  }
+
+  /**
+   * Finds an open trade by ID, or the most recent open trade matching a filter.
+   * @param tradeId The trade ID, if the client sent one.
+   * @param allowed Which trades the actor may act on.
+   * @returns The trade, or undefined.
+   */
+  findTrade(tradeId: string | undefined, allowed: (t: Trade) => boolean): Trade | undefined {
+    const open = (this.gameState?.trades || []).filter(allowed);
+    return tradeId !== undefined ? open.find(t => t.id === tradeId) : open[open.length - 1];
   }
 
   /**
-   * Starts an auction for a property.
+   * Joins players' names for the log.
+   * @param ids The player IDs.
+   */
+  tradeNames(ids: number[]): string {
+    return ids.map(id => this.gameState?.players.find(p => p.id === id)?.name ?? `Player ${id}`).join(', ');
+  }
+
+  /**
+   * Whether a trade keeps the current player's turn paused: one they proposed, or a
+   * counter-offer to them. Offers from others never hold up the turn.
+   * @param t The trade.
+   */
+  holdsTurn(t: Trade): boolean {
+    const current = this.gameState?.currentPlayerId;
+    return t.initiatorId === current || (t.parentId !== undefined && t.participants.includes(current!));
+  }
+
+  /**
+   * Moves a trade from the open list into the history, and ends the trade window once
+   * no open trade holds up the current player's turn.
+   * @param t The trade to close.
+   * @param status How it ended.
+   * @param reason Why it failed, for failed trades.
+   */
+  closeTrade(t: Trade, status: TradeStatus, reason?: string) {
+    if (!this.gameState) return;
+    this.gameState.trades = (this.gameState.trades || []).filter(x => x.id !== t.id);
+    (this.gameState.tradeHistory ||= []).push({ ...t, status, closedAt: this.now(), reason });
+
+    const waiting = this.gameState.trades.some(x => this.holdsTurn(x));
+    if (this.gameState.phase === 'trade-window' && !waiting) {
+      this.resumePhase();
+      // Debts paused by the window may have been settled while it was open
+      this.closeDebtResolution();
+    }
+  }
+
+  /**
+   * Expires open trades whose time is up.
+   * @returns True if any trade expired.
+   */
+  checkTradeExpiry(): boolean {
+    if (!this.gameState?.trades?.length) return false;
+    const now = this.now();
+    const expired = this.gameState.trades.filter(t => t.expiresAt <= now);
+    for (const t of expired) {
+      this.addLog('trade', `Trade between ${this.tradeNames(t.participants)} expired.`, { params: { tradeId: t.id, players: this.tradeNames(t.participants), variant: 'expired' } });
+      this.closeTrade(t, 'expired');
+    }
+    return expired.length > 0;
+  }
+
+  /**
+   * Hands Get Out of Jail Free cards from one player to another. A player holds at most
+   * one card from each deck, so each card given must be one the receiver lacks.
+   * @param from The player giving the cards.
+   * @param to The player receiving them.
+   * @param count How many cards to give.
+   * @returns The reason the cards cannot be handed over, or null once they have been.
+   */
+  transferJailCards(from: Player, to: Player, count: number): string | null {
+    for (let i = 0; i < count; i++) {
+      if (from.chanceJailCard && !to.chanceJailCard) {
+        from.chanceJailCard = false;
+        to.chanceJailCard = true;
+      } else if (from.communityChestJailCard && !to.communityChestJailCard) {
+        from.communityChestJailCard = false;
+        to.communityChestJailCard = true;
+      } else {
+        return `${to.name} cannot hold another Get Out of Jail Free card`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Starts an auction for a property. Every active player may bid; the auction ends
+   * when all but the highest bidder have passed, or when the countdown runs out.
+   * Under the sealed-bid rules each player bids once, and it ends when all have bid or passed.
    * @param squareId The ID of the square to be auctioned.
    * @returns A promise that resolves when the auction is started.
    */
@@ -1750,15 +3528,23 @@ export class Game implements DurableObject {
     const sq = this.gameState.squares.find(s => s.id === squareId);
     if (!sq || sq.ownerId !== undefined) return;
 
+    // House rule: without auctions the property simply stays with the bank
+    if (!this.gameState.rules.auctions) {
+      this.addLog('auction', `Auctions are off. ${sq.name} remains unowned.`, { squareIds: [sq.id], params: { variant: 'off' } });
+      this.settleRoll();
+      return;
+    }
+
     // If only one non-bankrupt player, skip auction - property remains unowned
     const activePlayers = this.gameState.players.filter(p => !p.bankrupt);
     if (activePlayers.length <= 1) {
-      this.gameState.log.push(`Auction skipped - only one active player. ${sq.name} remains unowned.`);
-      this.gameState.turnState = 'ended';
+      this.addLog('auction', `Auction skipped - only one active player. ${sq.name} remains unowned.`, { squareIds: [sq.id], params: { variant: 'skipped' } });
+      this.settleRoll();
       return;
     }
 
-    this.gameState.turnState = 'AuctionInProgress';
+    const mode = this.gameState.rules.auctionMode;
+    this.setPhase('auction');
     this.gameState.auction = {
       squareId: sq.id,
       propertyToAuction: sq,
@@ -1766,20 +3552,90 @@ export class Game implements DurableObject {
       highestBid: 0,
       highestBidderId: undefined,
       currentPlayerId: this.gameState.currentPlayerId,
-      endTime: Date.now() + 30000, // 30-second auction
+      endTime: this.now() + this.gameState.rules.auctionDurationMs,
+      bidders: activePlayers.map(p => p.id),
+      passed: [],
+      sealed: mode === 'sealed-first-price' ? 'first-price' : mode === 'sealed-second-price' ? 'second-price' : undefined,
+      sealedAfterSeq: mode === 'open' ? undefined : this.gameState.eventSeq,
+    };
+    this.scheduleAiBid();
+    await this.scheduleAlarm();
+    this.addLog('auction', mode === 'open'
+      ? `Auction started for ${sq.name}.`
+      : `Sealed-bid auction started for ${sq.name}: one bid each, revealed when bidding closes.`,
+      { squareIds: [sq.id], params: { variant: mode === 'open' ? 'started' : 'sealed' } });
+  }
+
+  /**
+   * Starts an auction for a house or hotel the bank is short of. The builder who asked
+   * for it opens the bidding at the building's cost; the turn resumes once it ends.
+   * Only players with a lot ready for the building may bid. Building auctions are always open.
+   * @param builder The player who tried to build.
+   * @param sq The lot the builder wants to build on.
+   * @param building The building being auctioned.
+   * @returns A promise that resolves when the auction is started.
+   */
+  async startBuildingAuction(builder: Player, sq: Square, building: 'house' | 'hotel') {
+    if (!this.gameState) return;
+    const cost = sq.houseCost || 0;
+    const squares = this.gameState.squares;
+    const bidders = this.gameState.players
+      .filter(p => !p.bankrupt && squares.some(s => s.ownerId === p.id && nextBuilding(s) === building && buildError(squares, s, p.id) === null))
+      .map(p => p.id);
+    this.interruptPhase('auction');
+    this.gameState.auction = {
+      kind: 'building',
+      building,
+      targets: { [builder.id]: sq.id },
+      squareId: sq.id,
+      propertyToAuction: sq,
+      bids: [{ playerId: builder.id, amount: cost }],
+      highestBid: cost,
+      highestBidderId: builder.id,
+      currentPlayerId: this.gameState.currentPlayerId,
+      endTime: this.now() + this.gameState.rules.auctionDurationMs,
+      bidders,
+      passed: [],
     };
-    await this.state.storage.setAlarm(this.gameState.auction.endTime);
-    this.gameState.log.push(`Auction started for ${sq.name}.`);
+    this.scheduleAiBid();
+    await this.scheduleAlarm();
+    this.addLog('auction', `The bank is short of ${building}s. Auction started for a ${building}; ${builder.name} opens at $${cost}.`, { actorId: builder.id, squareIds: [sq.id], amount: cost, params: { variant: 'building', building } });
+  }
+
+  /**
+   * Lists the players still bidding in the running auction: taking part, not passed
+   * and, in a sealed-bid auction, not yet bid.
+   */
+  activeBidders(): number[] {
+    const a = this.gameState?.auction;
+    if (!a) return [];
+    const players = this.gameState!.players;
+    const bidders = a.bidders ?? players.map(p => p.id);
+    return bidders.filter(id => !a.passed?.includes(id) && !players.find(p => p.id === id)?.bankrupt
+      && !(a.sealed && a.bids.some(b => b.playerId === id)));
+  }
+
+  /**
+   * The lowest bid the running auction accepts next. A sealed bid only has to reach
+   * one increment.
+   */
+  minimumBid(): number {
+    const increment = this.gameState?.rules.auctionIncrement || 1;
+    const a = this.gameState?.auction;
+    return a?.sealed ? increment : (a?.highestBid || 0) + increment;
   }
 
   /**
-   * Places a bid in an ongoing auction.
+   * Places a bid in an ongoing auction. A bid must beat the highest by the rules'
+   * increment; one placed near the end extends the countdown.
    * @param playerId The ID of the player placing the bid.
    * @param amount The amount of the bid.
+   * @param squareId For building auctions, the lot to build on if the bid wins.
+   * Defaults to the bidder's previous choice or their first eligible lot.
    * @returns A promise that resolves when the bid is placed.
    */
-  async placeBid(playerId: number, amount: number) {
-    if (!this.gameState || !this.gameState.auction || this.gameState.turnState !== 'AuctionInProgress') return;
+  async placeBid(playerId: number, amount: number, squareId?: number) {
+    if (!this.gameState || !this.gameState.auction || this.gameState.phase !== 'auction') return;
 
     const bid = Math.max(0, Math.floor(Number(amount) || 0));
     const player = this.gameState.players.find(p => p.id === playerId);
@@ -1789,16 +3645,149 @@ export class Game implements DurableObject {
       console.log(`Player ${playerId} cannot afford bid of ${bid}.`);
       return;
     }
+    if (!this.activeBidders().includes(playerId)) {
+      console.log(`Player ${playerId} is not bidding in this auction.`);
+      return;
+    }
+
+    const a = this.gameState.auction;
+    if (a.sealed) {
+      if (bid < this.minimumBid()) return;
+      a.bids.push({ playerId, amount: bid });
+      this.addLog('bid', `${player.name} submitted a sealed bid.`, { actorId: player.id, params: { variant: 'sealed' } });
+      if (this.activeBidders().length === 0) await this.finishAuction();
+      else this.scheduleAiBid();
+      await this.scheduleAlarm();
+      return;
+    }
+    if (a.kind === 'building') {
+      const squares = this.gameState.squares;
+      const eligible = (s?: Square) => !!s && nextBuilding(s) === a.building && buildError(squares, s, playerId) === null;
+      const wanted = squares.find(s => s.id === (squareId ?? a.targets?.[playerId]));
+      const target = eligible(wanted) ? wanted! : squares.find(s => s.ownerId === playerId && eligible(s));
+      if (!target || bid < (target.houseCost || 0)) {
+        console.log(`Player ${playerId} has no lot for a ${a.building} at $${bid}.`);
+        return;
+      }
+      a.targets = { ...a.targets, [playerId]: target.id };
+    }
+
+    if (bid < this.minimumBid()) {
+      console.log(`Bid of ${bid} is below the minimum of ${this.minimumBid()}.`);
+      return;
+    }
+
+    a.bids.push({ playerId, amount: bid });
+    a.highestBid = bid;
+    a.highestBidderId = playerId;
+    this.addLog('bid', `${player.name} bid $${bid}.`, { actorId: player.id, amount: bid });
+    // Anti-sniping: a late bid gives everyone else time to answer
+    const extend = this.gameState.rules.auctionExtendMs;
+    if (a.endTime - this.now() < extend) a.endTime = this.now() + extend;
+    // The last bidder standing wins straight away
+    if (this.activeBidders().every(id => id === playerId)) {
+      await this.finishAuction();
+      return;
+    }
+    this.scheduleAiBid();
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Drops a player out of the running auction. The highest bidder cannot pass.
+   * Once every other bidder has passed, the auction ends.
+   * @param playerId The ID of the player passing.
+   * @returns A promise that resolves when the pass is recorded.
+   */
+  async passAuction(playerId: number) {
+    if (!this.gameState || !this.gameState.auction || this.gameState.phase !== 'auction') return;
+    const a = this.gameState.auction;
+    const player = this.gameState.players.find(p => p.id === playerId);
+    if (!player || a.highestBidderId === playerId || !this.activeBidders().includes(playerId)) return;
+    (a.passed ||= []).push(playerId);
+    this.addLog('bid', `${player.name} passed.`, { actorId: player.id, params: { variant: 'passed' } });
+
+    const remaining = this.activeBidders().filter(id => id !== a.highestBidderId);
+    if (remaining.length === 0) {
+      await this.finishAuction();
+      return;
+    }
+    this.scheduleAiBid();
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Sets when the next AI bidder is asked, if any AI is still bidding against someone.
+   */
+  scheduleAiBid() {
+    const a = this.gameState?.auction;
+    if (!a) return;
+    a.aiBidAt = this.aiBidders().length ? this.now() + AI_BID_DELAY_MS : undefined;
+  }
+
+  /**
+   * Lists the AI-played bidders who may still answer the highest bid.
+   */
+  aiBidders(): number[] {
+    const a = this.gameState?.auction;
+    if (!a) return [];
+    return this.activeBidders().filter(id => {
+      const p = this.gameState!.players.find(q => q.id === id);
+      return id !== a.highestBidderId && !!p && this.isAiControlled(p);
+    });
+  }
 
-    if (bid <= this.gameState.auction.highestBid) {
-      console.log(`Bid of ${bid} is not higher than current bid of ${this.gameState.auction.highestBid}.`);
+  /**
+   * Lets the next AI bidder in seat order (after the one asked last) bid or pass,
+   * using MonopolyAI.getAuctionBid. Called from the alarm.
+   * @returns A promise that resolves when the AI has acted.
+   */
+  async aiAuctionTurn() {
+    const a = this.gameState?.auction;
+    if (!this.gameState || !a) return;
+    const ais = this.aiBidders();
+    if (ais.length === 0) {
+      a.aiBidAt = undefined;
       return;
     }
+    const id = ais.find(id => id > (a.lastAiBidderId ?? -1)) ?? ais[0];
+    a.lastAiBidderId = id;
+    const player = this.gameState.players.find(p => p.id === id)!;
+    const ai = this.aiFor(player);
+    // The AI values a scarce building at twice its cost, a property at its price
+    const lot = a.kind === 'building'
+      ? { ...a.propertyToAuction, price: (a.propertyToAuction.houseCost || 0) * 2 }
+      : a.propertyToAuction;
+    const wanted = a.sealed
+      ? ai.getSealedBid(this.gameState, lot, a.sealed === 'second-price')
+      : ai.getAuctionBid(this.gameState, lot, a.highestBid);
+    const bid = Math.max(wanted, this.minimumBid());
+    try {
+      if (wanted > 0 && bid <= player.money) await this.aiAct(id, 'placeBid', { amount: bid });
+      else await this.aiAct(id, 'passAuction');
+    } catch (err) {
+      console.error('AI auction turn failed:', err);
+    }
+    // A rejected bid must not stall the other bidders
+    if (this.gameState.auction && this.gameState.auction.aiBidAt !== undefined && this.gameState.auction.aiBidAt <= this.now()) {
+      this.scheduleAiBid();
+    }
+  }
 
-    this.gameState.auction.bids.push({ playerId, amount: bid });
-    this.gameState.auction.highestBid = bid;
-    this.gameState.auction.highestBidderId = playerId;
-    this.gameState.log.push(`${player.name} bid $${bid}.`);
+  /**
+   * Sends everyone the running auction without a full state update, after saving it.
+   * @returns A promise that resolves when the update is sent.
+   */
+  async broadcastAuctionUpdate() {
+    if (!this.gameState?.auction || this.replaying) return;
+    await this.state.storage.put('gameState', this.gameState);
+    await this.flushEvents();
+    const auction = this.gameState.auction;
+    const update = { minimumBid: this.minimumBid(), activeBidders: this.activeBidders(), log: this.gameState.log.slice(-1) };
+    this.broadcast((viewerId?: number) => ({
+      type: 'AUCTION_UPDATE',
+      payload: { ...update, auction: projectAuction(auction, viewerId) },
+    }));
   }
 
   /**
@@ -1806,48 +3795,92 @@ export class Game implements DurableObject {
    * @returns A promise that resolves when the check is complete.
    */
   async checkAuctionDeadline() {
-    if (!this.gameState || !this.gameState.auction || this.gameState.turnState !== 'AuctionInProgress') return;
+    if (!this.gameState || !this.gameState.auction || this.gameState.phase !== 'auction') return;
+    if (this.now() >= (this.gameState.auction.endTime || 0)) await this.finishAuction();
+  }
+
+  /**
+   * Ends the running auction: the highest bidder pays and takes the lot, and the turn
+   * carries on.
+   * @returns A promise that resolves when the auction is closed.
+   */
+  async finishAuction() {
+    if (!this.gameState || !this.gameState.auction) return;
 
     const a = this.gameState.auction;
-    if (Date.now() >= (a.endTime || 0)) {
-      const sq = this.gameState.squares.find(s => s.id === a.squareId);
-      if (!sq) {
-        this.gameState.auction = undefined;
-        // If the current player rolled doubles, they get to roll again
-        if (this.gameState.doublesCount > 0) {
-          this.gameState.turnState = 'rolling';
-        } else {
-          this.gameState.turnState = 'ended';
-        }
-        return;
-      }
+    if (a.sealed) this.revealSealedBids();
+    if (a.kind === 'building') {
+      this.resolveBuildingAuction();
+      this.gameState.auction = undefined;
+      this.resumePhase();
+      return;
+    }
+    const sq = this.gameState.squares.find(s => s.id === a.squareId);
+    if (!sq) {
+      this.gameState.auction = undefined;
+      // If the current player rolled doubles, they get to roll again
+      this.settleRoll();
+      return;
+    }
 
-      const winnerId = a.highestBidderId;
-      const bid = a.highestBid || 0;
+    const winnerId = a.highestBidderId;
+    const bid = a.highestBid || 0;
 
-      if (winnerId !== undefined && bid > 0) {
-        const winner = this.gameState.players.find(p => p.id === winnerId);
-        if (winner && winner.money >= bid) {
-          winner.money -= bid;
-          sq.ownerId = winnerId;
-          this.gameState.log.push(`${winner.name} won the auction for ${sq.name} for $${bid}.`);
-        } else {
-          // This case should ideally not happen with proper bid validation, but as a fallback:
-          this.gameState.log.push(`Auction for ${sq.name} ended but winner ${winner?.name} could not afford bid. Property remains unowned.`);
-          sq.ownerId = undefined;
-        }
+    if (winnerId !== undefined && bid > 0) {
+      const winner = this.gameState.players.find(p => p.id === winnerId);
+      if (winner && winner.money >= bid) {
+        winner.money -= bid;
+        sq.ownerId = winnerId;
+        this.addLog('auction-won', `${winner.name} won the auction for ${sq.name} for $${bid}.`, { actorId: winner.id, squareIds: [sq.id], amount: bid });
       } else {
-        this.gameState.log.push(`Auction for ${sq.name} ended with no bids. Property remains unowned.`);
+        // This case should ideally not happen with proper bid validation, but as a fallback:
+        this.addLog('auction', `Auction for ${sq.name} ended but winner ${winner?.name} could not afford bid. Property remains unowned.`, { actorId: winnerId, squareIds: [sq.id], amount: bid, params: { variant: 'unaffordable' } });
+        sq.ownerId = undefined;
       }
+    } else {
+      this.addLog('auction', `Auction for ${sq.name} ended with no bids. Property remains unowned.`, { squareIds: [sq.id], params: { variant: 'no-bids' } });
+    }
 
-      this.gameState.auction = undefined;
-      // If the current player rolled doubles, they get to roll again
-      if (this.gameState.doublesCount > 0) {
-        this.gameState.turnState = 'rolling';
-      } else {
-        this.gameState.turnState = 'ended';
-      }
+    this.gameState.auction = undefined;
+    // If the current player rolled doubles, they get to roll again
+    this.settleRoll();
+  }
+
+  /**
+   * Opens the sealed bids of a finished auction and sets the winner and the price: their
+   * own bid in a first-price auction, the runner-up's in a second-price one (or the
+   * minimum bid if nobody else bid). Ties go to the earliest bid.
+   */
+  revealSealedBids() {
+    const a = this.gameState?.auction;
+    if (!this.gameState || !a) return;
+    const ranked = [...a.bids].sort((x, y) => y.amount - x.amount);
+    if (ranked.length) {
+      const names = ranked.map(b => `${this.gameState!.players.find(p => p.id === b.playerId)?.name} $${b.amount}`);
+      this.addLog('auction', `Sealed bids revealed: ${names.join(', ')}.`, { squareIds: [a.squareId], params: { variant: 'revealed', bids: names.join(', ') } });
+    }
+    const [best, runnerUp] = ranked;
+    a.highestBidderId = best?.playerId;
+    a.highestBid = !best ? 0 : a.sealed === 'second-price' ? (runnerUp?.amount ?? this.minimumBid()) : best.amount;
+  }
+
+  /**
+   * Awards the building of a finished building auction, if the winner can still place it.
+   */
+  resolveBuildingAuction() {
+    if (!this.gameState?.auction) return;
+    const a = this.gameState.auction;
+    const winner = this.gameState.players.find(p => p.id === a.highestBidderId);
+    const target = this.gameState.squares.find(s => s.id === a.targets?.[a.highestBidderId ?? -1]);
+    const stock = a.building === 'hotel' ? this.gameState.bank.hotels : this.gameState.bank.houses;
+    if (!winner || !target || winner.money < a.highestBid || stock === 0
+        || nextBuilding(target) !== a.building || buildError(this.gameState.squares, target, winner.id) !== null) {
+      this.addLog('auction', `Auction for a ${a.building} ended without a sale.`, { params: { variant: 'no-sale', building: a.building || 'house' } });
+      return;
     }
+    winner.money -= a.highestBid;
+    this.placeBuilding(target);
+    this.addLog('auction-won', `${winner.name} won the ${a.building} for $${a.highestBid} and built on ${target.name}.`, { actorId: winner.id, squareIds: [target.id], amount: a.highestBid, params: { building: a.building || 'house' } });
   }
 
   /**
@@ -1862,14 +3895,7 @@ export class Game implements DurableObject {
       // @ts-ignore
       if (env && env.monopolyd1 && this.gameState) {
         await env.monopolyd1.prepare('INSERT OR REPLACE INTO games (id, owner_user_id, state_json, status, updated_at) VALUES (?, NULL, ?, ?, datetime("now"))')
-          .bind(this.gameState.gameId, JSON.stringify({
-            id: this.gameState.gameId,
-            players: this.gameState.players.map(p => ({ id: p.id, name: p.name, money: p.money, bankrupt: p.bankrupt })),
-            currentPlayerId: this.gameState.currentPlayerId,
-            status: this.gameState.status || 'open',
-            winnerId: this.gameState.winnerId,
-            turn: this.gameState.turn,
-          }), this.gameState.status || 'open').run();
+          .bind(this.gameState.gameId, JSON.stringify(summarizeState(this.gameState)), this.gameState.status || 'open').run();
       }
     } catch {}
   }
@@ -1878,4 +3904,6 @@ export class Game implements DurableObject {
 interface Env {
     AI: any;
     monopolyd1: D1Database;
+    DB?: D1Database;
+    AUTH_SECRET?: string;
 }
@@ -1,5 +1,5 @@
 import { Game } from './game';
-import { signSession, verifySession, setCookie, getCookie, hashPassword, verifyPassword } from './auth';
+import { signSession, verifySession, setCookie, getCookie, hashPassword, verifyPassword, signVerifiedUser, VERIFIED_USER_HEADER } from './auth';
 import { ensureUserByUsername, initCore, initUi, initApp, createUserWithPassword, findUserByEmail, findUserByEmailOrUsername, updateUserOnline, generateVerificationToken, saveVerificationToken, verifyEmailToken } from './db';
 import { sendVerificationEmail, sendWelcomeEmail } from './email';
 
@@ -32,7 +32,7 @@ export default {
     // WebSocket route: forward explicitly to service binding (game-sockets)
     const wsMatch = path.match(/^\/api\/game\/([a-zA-Z0-9_-]+)\/websocket$/);
     if (wsMatch && request.headers.get('Upgrade') === 'websocket') {
-      return env.GAME_SOCKETS.fetch(request);
+      return env.GAME_SOCKETS.fetch(await withVerifiedUser(request, env));
     }
 
     // Other game API routes continue to use the Game Durable Object
@@ -320,6 +320,26 @@ export default {
   },
 };
 
+/**
+ * Copies a WebSocket upgrade request for the Game Durable Object, replacing any
+ * verified-user header the client sent with one signed for the SESSION cookie's user.
+ * Without a valid session the request goes on without the header, for a guest seat.
+ * @param request The incoming upgrade request.
+ * @param env The environment bindings.
+ * @returns A promise that resolves to the request to forward.
+ */
+async function withVerifiedUser(request: Request, env: Env): Promise<Request> {
+  const forwarded = new Request(request);
+  forwarded.headers.delete(VERIFIED_USER_HEADER);
+  const token = getCookie(request, 'SESSION');
+  if (token) {
+    const authSecret = env.AUTH_SECRET || 'dev-secret-not-for-prod';
+    const sess = await verifySession(authSecret, token);
+    if (sess?.sub) forwarded.headers.set(VERIFIED_USER_HEADER, await signVerifiedUser(authSecret, sess.sub));
+  }
+  return forwarded;
+}
+
 /**
  * Handles a request for a game, forwarding it to the correct Durable Object.
  * @param request The incoming request.
@@ -0,0 +1,67 @@
+/**
+ * The game log. Entries are structured (what happened, to whom, on which squares, for
+ * how much) so clients can render them in their own language; each also carries an
+ * English text. The state keeps only the latest entries: once the buffer overflows,
+ * the oldest are archived to the Durable Object's storage, where the log endpoint
+ * pages through them.
+ */
+
+import { GameState, LogEntry, LogType } from './board-data';
+
+/** Entries kept in the state. */
+export const LOG_BUFFER_SIZE = 100;
+/** Entries archived at a time, so the buffer is not trimmed on every update. */
+export const LOG_ARCHIVE_BATCH = 50;
+/** Largest page the log endpoint returns. */
+export const LOG_PAGE_LIMIT = 200;
+
+/** The structured parts of an entry, beyond its type and text. */
+export type LogDetails = Pick<LogEntry, 'actorId' | 'squareIds' | 'amount' | 'params' | 'autopilot'>;
+
+/**
+ * Adds an entry to the log.
+ * @param state The game state.
+ * @param ts The time of the entry.
+ * @param type What the entry is about.
+ * @param text The entry in English.
+ * @param details The players, squares and amounts involved.
+ * @returns The new entry.
+ */
+export function appendLog(state: GameState, ts: number, type: LogType, text: string, details: LogDetails = {}): LogEntry {
+  const entry: LogEntry = { seq: (state.logSeq ?? 0) + 1, ts, turn: state.turn, type, ...details, text };
+  state.logSeq = entry.seq;
+  state.log.push(entry);
+  return entry;
+}
+
+/**
+ * Upgrades a log stored as plain lines to entries.
+ * @param state The stored state.
+ */
+export function migrateLog(state: GameState) {
+  const lines = state.log as unknown[];
+  if (lines.every(line => typeof line === 'object')) {
+    if (state.logSeq === undefined) state.logSeq = state.log[state.log.length - 1]?.seq ?? 0;
+    return;
+  }
+  state.log = lines.map((line, i) => ({ seq: i + 1, ts: 0, turn: 0, type: 'game', text: String(line) }));
+  state.logSeq = state.log.length;
+}
+
+/**
+ * Removes the entries that no longer fit in the buffer.
+ * @param state The game state.
+ * @returns The removed entries, oldest first; empty until a whole batch has built up.
+ */
+export function takeLogOverflow(state: GameState): LogEntry[] {
+  if (state.log.length < LOG_BUFFER_SIZE + LOG_ARCHIVE_BATCH) return [];
+  return state.log.splice(0, state.log.length - LOG_BUFFER_SIZE);
+}
+
+/**
+ * The storage key of an archived entry. Keys sort in log order.
+ * @param seq The entry's sequence number.
+ */
+export function logArchiveKey(seq: number): string {
+  return `log:${String(seq).padStart(10, '0')}`;
+}
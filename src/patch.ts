@@ -0,0 +1,69 @@
+/**
+ * State diffs for the WebSocket sync.
+ *
+ * Each client holds a copy of its view of the state at some version. Instead of the
+ * whole view, the server sends the operations that turn the client's copy into the
+ * new one, in JSON Patch form (RFC 6902: add, remove and replace with JSON Pointer
+ * paths). Clients apply them in order and ask for a full resync if they miss a version.
+ */
+
+export type PatchOp =
+  | { op: 'add'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: any };
+
+/**
+ * Escapes one key for use in a JSON Pointer.
+ * @param key The object key or array index.
+ */
+function pointerToken(key: string | number): string {
+  return String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Lists the operations that turn one JSON value into another. Both values must be
+ * plain JSON (no undefined, functions or dates): serialize them first.
+ * Arrays that only grew (the log, chat) become appends. Arrays that changed in most
+ * places, such as a chat history that dropped its oldest messages, are replaced whole.
+ * @param prev The value the client has.
+ * @param next The value the client should have.
+ * @param path The JSON Pointer of the values (empty for the root).
+ * @returns The operations, empty if the values are equal.
+ */
+export function diffJson(prev: any, next: any, path = ''): PatchOp[] {
+  if (prev === next) return [];
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const ops: PatchOp[] = [];
+    const common = Math.min(prev.length, next.length);
+    let changed = 0;
+    for (let i = 0; i < common; i++) {
+      const itemOps = diffJson(prev[i], next[i], `${path}/${i}`);
+      if (itemOps.length) changed++;
+      ops.push(...itemOps);
+    }
+    if (common > 0 && changed * 2 > common) return [{ op: 'replace', path, value: next }];
+    for (let i = common; i < next.length; i++) ops.push({ op: 'add', path: `${path}/-`, value: next[i] });
+    for (let i = prev.length - 1; i >= next.length; i--) ops.push({ op: 'remove', path: `${path}/${i}` });
+    return ops;
+  }
+
+  if (isObject(prev) && isObject(next)) {
+    const ops: PatchOp[] = [];
+    for (const key of Object.keys(prev)) {
+      if (!(key in next)) ops.push({ op: 'remove', path: `${path}/${pointerToken(key)}` });
+    }
+    for (const key of Object.keys(next)) {
+      const keyPath = `${path}/${pointerToken(key)}`;
+      if (key in prev) ops.push(...diffJson(prev[key], next[key], keyPath));
+      else ops.push({ op: 'add', path: keyPath, value: next[key] });
+    }
+    return ops;
+  }
+
+  return [{ op: 'replace', path, value: next }];
+}
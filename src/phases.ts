@@ -0,0 +1,150 @@
+/**
+ * The turn-phase state machine.
+ *
+ * Every turn moves through a fixed set of phases. Each phase lists the phases it may
+ * move to and the actions that are legal in it; anything else is rejected with a
+ * typed error before it touches the game state.
+ */
+
+import { GameState, TurnPhase } from './board-data';
+
+/**
+ * Legal transitions out of each phase. Staying in the same phase is always allowed.
+ */
+const TRANSITIONS: Record<TurnPhase, readonly TurnPhase[]> = {
+  'pre-roll': ['resolve-landing', 'auction', 'debt-resolution', 'trade-window', 'post-roll'],
+  'jail-decision': ['pre-roll', 'resolve-landing', 'auction', 'debt-resolution', 'trade-window', 'post-roll'],
+  'resolve-landing': ['pre-roll', 'auction', 'debt-resolution', 'post-roll'],
+  'auction': ['pre-roll', 'jail-decision', 'post-roll'],
+  'debt-resolution': ['pre-roll', 'jail-decision', 'resolve-landing', 'post-roll'],
+  'trade-window': ['pre-roll', 'jail-decision', 'debt-resolution', 'post-roll'],
+  'post-roll': ['pre-roll', 'jail-decision', 'auction', 'debt-resolution', 'trade-window'],
+};
+
+const MANAGE_PROPERTY = ['buildHouse', 'sellHouse', 'mortgage', 'unmortgage'];
+const TRADE = ['proposeTrade', 'counterTrade', 'acceptTrade', 'rejectTrade'];
+// Gifts are offered as one-sided trades, but never while debts are being settled
+const GIFT = ['giveMoney', 'transferProperty'];
+
+/**
+ * Actions only the current player may take, per phase.
+ */
+const CURRENT_PLAYER_ACTIONS: Record<TurnPhase, ReadonlySet<string>> = {
+  'pre-roll': new Set(['rollDice', ...MANAGE_PROPERTY]),
+  'jail-decision': new Set(['rollDice', 'payJailFine', 'useJailCard', ...MANAGE_PROPERTY]),
+  'resolve-landing': new Set(['buyProperty', 'declineToBuyProperty', 'startAuction', 'sellHouse', 'mortgage']),
+  'auction': new Set(),
+  'debt-resolution': new Set(),
+  'trade-window': new Set(),
+  'post-roll': new Set(['endTurn', ...MANAGE_PROPERTY]),
+};
+
+/**
+ * Actions any seated player may take, per phase.
+ */
+const ANY_PLAYER_ACTIONS: Record<TurnPhase, ReadonlySet<string>> = {
+  'pre-roll': new Set([...TRADE, ...GIFT]),
+  'jail-decision': new Set([...TRADE, ...GIFT]),
+  'resolve-landing': new Set(),
+  'auction': new Set(['placeBid', 'passAuction']),
+  // Any debtor may raise funds, not just the current player (the game checks who owes)
+  'debt-resolution': new Set([...TRADE, 'sellHouse', 'mortgage', 'payDebt', 'declareBankruptcy', 'resolveMortgage']),
+  'trade-window': new Set([...TRADE, ...GIFT]),
+  'post-roll': new Set([...TRADE, ...GIFT]),
+};
+
+/**
+ * Every action the phase machine has an opinion on. Others (setup, chat, rules...)
+ * are not tied to the turn and pass through unchecked.
+ */
+const PHASED_ACTIONS: ReadonlySet<string> = new Set(
+  Object.values(CURRENT_PLAYER_ACTIONS).concat(Object.values(ANY_PLAYER_ACTIONS)).flatMap(s => [...s])
+);
+
+/**
+ * Actions reserved for the current player in at least one phase.
+ */
+const TURN_ACTIONS: ReadonlySet<string> = new Set(Object.values(CURRENT_PLAYER_ACTIONS).flatMap(s => [...s]));
+
+/**
+ * Base class for actions or transitions the phase machine does not allow.
+ */
+export class PhaseError extends Error {
+  constructor(message: string, readonly code: 'not-your-turn' | 'wrong-phase' | 'illegal-transition', readonly phase: TurnPhase) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown when a player who is not the current player takes a turn action.
+ */
+export class NotYourTurnError extends PhaseError {
+  constructor(phase: TurnPhase, readonly action: string) {
+    super(`It is not your turn to ${action}.`, 'not-your-turn', phase);
+  }
+}
+
+/**
+ * Thrown when an action is not allowed in the current phase.
+ */
+export class WrongPhaseError extends PhaseError {
+  constructor(phase: TurnPhase, readonly action: string) {
+    super(`${action} is not allowed during ${phase}.`, 'wrong-phase', phase);
+  }
+}
+
+/**
+ * Thrown when the game tries to move between phases that are not connected.
+ * This always indicates a rules bug rather than a bad request.
+ */
+export class IllegalTransitionError extends PhaseError {
+  constructor(phase: TurnPhase, readonly to: TurnPhase) {
+    super(`Cannot move from ${phase} to ${to}.`, 'illegal-transition', phase);
+  }
+}
+
+/**
+ * Checks that an action may be taken in the given phase.
+ * @param phase The current phase.
+ * @param action The action being attempted.
+ * @param isCurrentPlayer Whether the actor is the player whose turn it is.
+ * @throws NotYourTurnError or WrongPhaseError if the action is not allowed.
+ */
+export function assertActionAllowed(phase: TurnPhase, action: string, isCurrentPlayer: boolean) {
+  if (!PHASED_ACTIONS.has(action)) return;
+  if (ANY_PLAYER_ACTIONS[phase].has(action)) return;
+  if (CURRENT_PLAYER_ACTIONS[phase].has(action) && isCurrentPlayer) return;
+  if (!isCurrentPlayer && TURN_ACTIONS.has(action)) throw new NotYourTurnError(phase, action);
+  throw new WrongPhaseError(phase, action);
+}
+
+/**
+ * Checks that the machine may move from one phase to another.
+ * @param from The current phase.
+ * @param to The phase to move to.
+ * @throws IllegalTransitionError if the transition is not in the table.
+ */
+export function assertTransition(from: TurnPhase, to: TurnPhase) {
+  if (from !== to && !TRANSITIONS[from].includes(to)) throw new IllegalTransitionError(from, to);
+}
+
+/**
+ * Derives the phase of a game stored before the phase machine existed.
+ * @param state The stored state, possibly carrying the old `turnState` field.
+ */
+export function migrateTurnState(state: GameState) {
+  const legacy = (state as any).turnState as string | undefined;
+  if (state.phase && legacy === undefined) return;
+  if (!state.phase) {
+    const inJail = state.players[state.currentPlayerId]?.inJail;
+    switch (legacy) {
+      case 'LandedOnUnownedProperty': state.phase = 'resolve-landing'; break;
+      case 'AuctionInProgress': state.phase = 'auction'; break;
+      case 'acting':
+      case 'ended': state.phase = 'post-roll'; break;
+      default: state.phase = inJail ? 'jail-decision' : 'pre-roll';
+    }
+  }
+  delete (state as any).turnState;
+}
@@ -0,0 +1,139 @@
+/**
+ * Rent rules for every ownable square.
+ *
+ * Everything here is a pure function of the board, so the game, the AI and the
+ * rent-table endpoint all charge and quote the same amounts.
+ */
+
+import { Square } from './board-data';
+
+/**
+ * Extra inputs that change the rent for a single payment.
+ */
+export interface RentOptions {
+  /** Total of the dice that decide a utility's rent. */
+  diceTotal?: number;
+  /**
+   * Set when a card sent the player here: railroads charge this many times the normal
+   * rent, utilities this many times the dice regardless of how many the owner holds.
+   */
+  cardMultiplier?: number;
+}
+
+/**
+ * One row of the rent table.
+ */
+export interface RentTableEntry {
+  squareId: number;
+  name: string;
+  type: Square['type'];
+  group?: Square['group'];
+  ownerId?: number;
+  houses: number;
+  mortgaged: boolean;
+  /** Rent charged right now; for utilities, per point of the dice. */
+  rent: number;
+  /** For utilities, the dice multiplier (4 or 10); undefined otherwise. */
+  diceMultiplier?: number;
+}
+
+/**
+ * Counts the unmortgaged squares of a type held by an owner. Mortgaged railroads and
+ * utilities do not count towards the owner's set.
+ * @param squares The board.
+ * @param type The square type to count.
+ * @param ownerId The owner.
+ * @returns The number of earning squares.
+ */
+function countEarning(squares: Square[], type: Square['type'], ownerId: number): number {
+  return squares.filter(s => s.type === type && s.ownerId === ownerId && !s.mortgaged).length;
+}
+
+/**
+ * Checks whether the owner of a property holds its whole color group. Mortgaged lots
+ * still count: the unmortgaged ones keep charging double rent.
+ * @param squares The board.
+ * @param square A property in the group.
+ * @returns True if the group is a complete monopoly.
+ */
+export function ownsFullGroup(squares: Square[], square: Square): boolean {
+  if (square.type !== 'property' || !square.group || square.ownerId === undefined) return false;
+  return squares
+    .filter(s => s.type === 'property' && s.group === square.group)
+    .every(s => s.ownerId === square.ownerId);
+}
+
+/**
+ * The printed rent of a property at a building level, before monopoly doubling.
+ * @param square The property.
+ * @param houses The number of houses (5 is a hotel).
+ * @returns The rent, or 0 if the square has no rent schedule.
+ */
+export function buildingRent(square: Square, houses: number): number {
+  return square.rent?.[Math.max(0, Math.min(houses, square.rent.length - 1))] ?? 0;
+}
+
+/**
+ * The dice multiplier an owner charges on a utility.
+ * @param squares The board.
+ * @param ownerId The owner.
+ * @returns 10 with both utilities earning, otherwise 4.
+ */
+export function utilityMultiplier(squares: Square[], ownerId: number): number {
+  return countEarning(squares, 'utility', ownerId) >= 2 ? 10 : 4;
+}
+
+/**
+ * Calculates the rent due for landing on a square.
+ * Unowned and mortgaged squares charge nothing. Unimproved properties charge double
+ * when their group is a complete monopoly, even if another lot in it is mortgaged.
+ * @param squares The board.
+ * @param square The square landed on.
+ * @param options Dice total and card multiplier, where they apply.
+ * @returns The rent in dollars.
+ */
+export function calculateRent(squares: Square[], square: Square, options: RentOptions = {}): number {
+  if (square.ownerId === undefined || square.mortgaged) return 0;
+
+  switch (square.type) {
+    case 'property': {
+      const houses = square.houses || 0;
+      const rent = buildingRent(square, houses);
+      return houses === 0 && ownsFullGroup(squares, square) ? rent * 2 : rent;
+    }
+    case 'railroad': {
+      const owned = countEarning(squares, 'railroad', square.ownerId);
+      return 25 * Math.pow(2, owned - 1) * (options.cardMultiplier ?? 1);
+    }
+    case 'utility': {
+      const multiplier = options.cardMultiplier ?? utilityMultiplier(squares, square.ownerId);
+      return (options.diceTotal ?? 0) * multiplier;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Lists the current rent of every ownable square.
+ * @param squares The board.
+ * @returns One entry per property, railroad and utility, in board order.
+ */
+export function rentTable(squares: Square[]): RentTableEntry[] {
+  return squares
+    .filter(s => s.type === 'property' || s.type === 'railroad' || s.type === 'utility')
+    .map(s => {
+      const utility = s.type === 'utility' && s.ownerId !== undefined && !s.mortgaged;
+      return {
+        squareId: s.id,
+        name: s.name,
+        type: s.type,
+        group: s.group,
+        ownerId: s.ownerId,
+        houses: s.houses || 0,
+        mortgaged: !!s.mortgaged,
+        rent: calculateRent(squares, s, { diceTotal: 1 }),
+        diceMultiplier: utility ? utilityMultiplier(squares, s.ownerId!) : undefined,
+      };
+    });
+}
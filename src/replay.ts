@@ -0,0 +1,51 @@
+/**
+ * Support code for re-simulating a game from its event log.
+ * The Game class does the actual work (see `Game.replay`); this module provides
+ * the in-memory Durable Object state it runs against and the summary used to
+ * compare a replay with the stored game.
+ */
+
+import { GameState } from './board-data';
+
+/**
+ * Creates a minimal in-memory stand-in for `DurableObjectState`.
+ * Storage reads and writes stay in memory, alarms are ignored and there are no
+ * sockets, so a replaying Game never touches the real object's storage or clients.
+ * @param gameId The ID of the game being replayed.
+ * @returns An object that satisfies the parts of `DurableObjectState` the Game uses.
+ */
+export function createReplayState(gameId: string): DurableObjectState {
+  const store = new Map<string, any>();
+  const storage = {
+    async get(key: string) { return store.get(key); },
+    async put(key: string, value: any) { store.set(key, structuredClone(value)); },
+    async delete(key: string) { return store.delete(key); },
+    async setAlarm() {},
+    async getAlarm() { return null; },
+    async deleteAlarm() {},
+  };
+  return {
+    id: { toString: () => gameId },
+    storage,
+    waitUntil() {},
+    acceptWebSocket() {},
+    getWebSockets() { return []; },
+  } as unknown as DurableObjectState;
+}
+
+/**
+ * Builds the lightweight summary stored in `games.state_json`.
+ * Replays are checked by comparing this summary with the stored one.
+ * @param state The game state to summarize.
+ * @returns The summary object.
+ */
+export function summarizeState(state: GameState) {
+  return {
+    id: state.gameId,
+    players: state.players.map(p => ({ id: p.id, name: p.name, money: p.money, bankrupt: p.bankrupt })),
+    currentPlayerId: state.currentPlayerId,
+    status: state.status || 'open',
+    winnerId: state.winnerId,
+    turn: state.turn,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Seeded, reproducible randomness for dice and card shuffles.
+ *
+ * The generator is counter based: the n-th draw depends only on the seed and n,
+ * so persisting `{ seed, cursor }` is enough to resume or re-simulate a game.
+ * The seed stays secret while the game runs; clients only see a SHA-256
+ * commitment, and the seed itself is revealed when the game ends.
+ */
+
+import { RngState } from './board-data';
+
+/**
+ * Generates a fresh random seed.
+ * @returns A 64-character hex string.
+ */
+export function createSeed(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Computes the public commitment for a seed.
+ * @param seed The secret seed.
+ * @returns A promise that resolves to the hex-encoded SHA-256 digest of the seed.
+ */
+export async function commitSeed(seed: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(seed));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks that a revealed seed matches a previously published commitment.
+ * @param seed The revealed seed.
+ * @param commitment The commitment published at game start.
+ * @returns A promise that resolves to true if the seed matches.
+ */
+export async function verifySeed(seed: string, commitment: string): Promise<boolean> {
+  return (await commitSeed(seed)) === commitment;
+}
+
+/**
+ * Creates a new generator state with a random seed and its commitment.
+ * @returns A promise that resolves to the new generator state.
+ */
+export async function createRng(): Promise<RngState> {
+  const seed = createSeed();
+  return { seed, cursor: 0, commitment: await commitSeed(seed), revealed: false };
+}
+
+/**
+ * Final avalanche step of MurmurHash3.
+ */
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Hashes a seed string into four 32-bit words (cyrb128).
+ */
+function seedWords(seed: string): [number, number, number, number] {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  return [(h1 ^ h2 ^ h3 ^ h4) >>> 0, (h2 ^ h1) >>> 0, (h3 ^ h1) >>> 0, (h4 ^ h1) >>> 0];
+}
+
+/**
+ * Returns the draw at a given position of the stream without advancing it.
+ * @param seed The seed.
+ * @param cursor The draw index.
+ * @returns A float in [0, 1).
+ */
+export function randomAt(seed: string, cursor: number): number {
+  const [a, b, c, d] = seedWords(seed);
+  let h = (a ^ Math.imul(cursor + 1, 0x9e3779b9)) >>> 0;
+  h = fmix32((h + b) >>> 0);
+  h = fmix32((h ^ c) >>> 0);
+  h = fmix32((h + d + cursor) >>> 0);
+  return h / 4294967296;
+}
+
+/**
+ * Draws the next float in [0, 1) and advances the cursor.
+ * @param rng The generator state (mutated).
+ * @returns A float in [0, 1).
+ */
+export function nextRandom(rng: RngState): number {
+  const value = randomAt(rng.seed, rng.cursor);
+  rng.cursor++;
+  return value;
+}
+
+/**
+ * Draws an integer in [0, n).
+ * @param rng The generator state (mutated).
+ * @param n The exclusive upper bound.
+ * @returns The drawn integer.
+ */
+export function randomInt(rng: RngState, n: number): number {
+  return Math.floor(nextRandom(rng) * n);
+}
+
+/**
+ * Rolls a single six-sided die.
+ * @param rng The generator state (mutated).
+ * @returns A value from 1 to 6.
+ */
+export function rollDie(rng: RngState): number {
+  return randomInt(rng, 6) + 1;
+}
+
+/**
+ * Shuffles an array in place (Fisher-Yates) using the seeded stream.
+ * @param rng The generator state (mutated).
+ * @param array The array to shuffle.
+ */
+export function shuffleWith(rng: RngState, array: any[]) {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * House rules for a Monopoly game.
+ * The host may change these before the first roll; after that they are locked.
+ */
+
+import { AuctionMode, GameRules, TimerAction } from './board-data';
+
+/**
+ * The standard rule set used when the host does not configure anything.
+ */
+export const DEFAULT_RULES: GameRules = {
+  startingCash: 1500,
+  goSalary: 200,
+  doubleSalaryOnGo: false,
+  freeParkingJackpot: false,
+  auctions: true,
+  auctionMode: 'open',
+  auctionDurationMs: 30000,
+  auctionIncrement: 10,
+  auctionExtendMs: 10000,
+  debtDeadlineMs: 120000,
+  tradeExpiryMs: 120000,
+  reconnectGraceMs: 60000,
+  idleTimeoutMs: 180000,
+  turnTimeLimitMs: 0,
+  chessClockMs: 0,
+  timerActions: ['auto-roll', 'auto-decline-purchase', 'auto-end-turn'],
+  giftsAllowed: false,
+  jailFine: 50,
+  incomeTax: 200,
+  luxuryTax: 100,
+  maxTurns: 0,
+  timeLimitMinutes: 0,
+};
+
+/**
+ * Clamps a numeric rule value into an allowed range.
+ * @param value The incoming value.
+ * @param fallback The value to use when the input is not a number.
+ * @param min The minimum allowed value.
+ * @param max The maximum allowed value.
+ * @returns The sanitized integer value.
+ */
+function clampInt(value: any, fallback: number, min: number, max: number): number {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+const AUCTION_MODES: readonly AuctionMode[] = ['open', 'sealed-first-price', 'sealed-second-price'];
+const TIMER_ACTIONS: readonly TimerAction[] = ['auto-roll', 'auto-decline-purchase', 'auto-end-turn'];
+
+/**
+ * Picks the expiry actions from a rules payload. A timed game needs at least one, or
+ * a player out of time would hold it up, so an empty choice keeps the previous actions.
+ * @param input The actions sent by the host.
+ * @param base The rules being changed.
+ * @param timed Whether the new rules time turns or have a chess clock.
+ * @returns The actions, in their standard order.
+ */
+function normalizeTimerActions(input: any, base: GameRules, timed: boolean): TimerAction[] {
+  const actions = Array.isArray(input) ? TIMER_ACTIONS.filter(a => input.includes(a)) : [...base.timerActions];
+  if (actions.length || !timed) return actions;
+  return base.timerActions.length ? [...base.timerActions] : [...DEFAULT_RULES.timerActions];
+}
+
+/**
+ * Merges a partial rules payload from a client on top of an existing rule set.
+ * Unknown keys are ignored and numeric values are clamped to sane ranges.
+ * @param input The partial rules sent by the host.
+ * @param base The rules to start from (defaults to the standard rules).
+ * @returns A complete, validated rule set.
+ */
+export function normalizeRules(input: any, base: GameRules = DEFAULT_RULES): GameRules {
+  const src = input && typeof input === 'object' ? input : {};
+  const bool = (v: any, fallback: boolean) => (typeof v === 'boolean' ? v : fallback);
+  const turnTimeLimitMs = clampInt(src.turnTimeLimitMs, base.turnTimeLimitMs, 0, 3600000);
+  const chessClockMs = clampInt(src.chessClockMs, base.chessClockMs, 0, 24 * 3600000);
+  return {
+    startingCash: clampInt(src.startingCash, base.startingCash, 0, 100000),
+    goSalary: clampInt(src.goSalary, base.goSalary, 0, 10000),
+    doubleSalaryOnGo: bool(src.doubleSalaryOnGo, base.doubleSalaryOnGo),
+    freeParkingJackpot: bool(src.freeParkingJackpot, base.freeParkingJackpot),
+    auctions: bool(src.auctions, base.auctions),
+    auctionMode: AUCTION_MODES.includes(src.auctionMode) ? src.auctionMode : base.auctionMode,
+    auctionDurationMs: clampInt(src.auctionDurationMs, base.auctionDurationMs, 5000, 300000),
+    auctionIncrement: clampInt(src.auctionIncrement, base.auctionIncrement, 1, 1000),
+    auctionExtendMs: clampInt(src.auctionExtendMs, base.auctionExtendMs, 0, 60000),
+    debtDeadlineMs: clampInt(src.debtDeadlineMs, base.debtDeadlineMs, 15000, 3600000),
+    tradeExpiryMs: clampInt(src.tradeExpiryMs, base.tradeExpiryMs, 15000, 3600000),
+    reconnectGraceMs: clampInt(src.reconnectGraceMs, base.reconnectGraceMs, 10000, 600000),
+    idleTimeoutMs: clampInt(src.idleTimeoutMs, base.idleTimeoutMs, 0, 3600000),
+    turnTimeLimitMs,
+    chessClockMs,
+    timerActions: normalizeTimerActions(src.timerActions, base, turnTimeLimitMs > 0 || chessClockMs > 0),
+    giftsAllowed: bool(src.giftsAllowed, base.giftsAllowed),
+    jailFine: clampInt(src.jailFine, base.jailFine, 0, 10000),
+    incomeTax: clampInt(src.incomeTax, base.incomeTax, 0, 10000),
+    luxuryTax: clampInt(src.luxuryTax, base.luxuryTax, 0, 10000),
+    maxTurns: clampInt(src.maxTurns, base.maxTurns, 0, 10000),
+    timeLimitMinutes: clampInt(src.timeLimitMinutes, base.timeLimitMinutes, 0, 24 * 60),
+  };
+}
+
+/**
+ * Produces a short human-readable summary of the rules that differ from the defaults.
+ * @param rules The rule set to describe.
+ * @returns A comma-separated description, or 'standard rules'.
+ */
+export function describeRules(rules: GameRules): string {
+  const parts: string[] = [];
+  if (rules.startingCash !== DEFAULT_RULES.startingCash) parts.push(`starting cash $${rules.startingCash}`);
+  if (rules.goSalary !== DEFAULT_RULES.goSalary) parts.push(`GO salary $${rules.goSalary}`);
+  if (rules.doubleSalaryOnGo) parts.push('double salary on GO');
+  if (rules.freeParkingJackpot) parts.push('Free Parking jackpot');
+  if (!rules.auctions) parts.push('no auctions');
+  if (rules.auctionMode === 'sealed-first-price') parts.push('sealed-bid auctions');
+  if (rules.auctionMode === 'sealed-second-price') parts.push('sealed second-price auctions');
+  if (rules.auctionDurationMs !== DEFAULT_RULES.auctionDurationMs) parts.push(`${Math.round(rules.auctionDurationMs / 1000)}s auctions`);
+  if (rules.auctionIncrement !== DEFAULT_RULES.auctionIncrement) parts.push(`$${rules.auctionIncrement} bid increments`);
+  if (rules.auctionExtendMs !== DEFAULT_RULES.auctionExtendMs) {
+    parts.push(rules.auctionExtendMs ? `late bids extend auctions to ${Math.round(rules.auctionExtendMs / 1000)}s` : 'no auction extensions');
+  }
+  if (rules.debtDeadlineMs !== DEFAULT_RULES.debtDeadlineMs) parts.push(`${Math.round(rules.debtDeadlineMs / 1000)}s to raise funds`);
+  if (rules.tradeExpiryMs !== DEFAULT_RULES.tradeExpiryMs) parts.push(`trades expire after ${Math.round(rules.tradeExpiryMs / 1000)}s`);
+  if (rules.reconnectGraceMs !== DEFAULT_RULES.reconnectGraceMs) parts.push(`${Math.round(rules.reconnectGraceMs / 1000)}s to reconnect`);
+  if (rules.idleTimeoutMs !== DEFAULT_RULES.idleTimeoutMs) {
+    parts.push(rules.idleTimeoutMs ? `AI takes over after ${Math.round(rules.idleTimeoutMs / 1000)}s idle` : 'no AI takeover when idle');
+  }
+  if (rules.turnTimeLimitMs > 0) parts.push(`${Math.round(rules.turnTimeLimitMs / 1000)}s per turn`);
+  if (rules.chessClockMs > 0) parts.push(`${Math.round(rules.chessClockMs / 60000)} minute chess clock`);
+  if ((rules.turnTimeLimitMs > 0 || rules.chessClockMs > 0) && rules.timerActions.length < TIMER_ACTIONS.length) {
+    parts.push(rules.timerActions.length ? `out of time: ${rules.timerActions.join(', ')}` : 'nothing automatic when out of time');
+  }
+  if (rules.giftsAllowed) parts.push('gifts allowed');
+  if (rules.jailFine !== DEFAULT_RULES.jailFine) parts.push(`jail fine $${rules.jailFine}`);
+  if (rules.incomeTax !== DEFAULT_RULES.incomeTax) parts.push(`Income Tax $${rules.incomeTax}`);
+  if (rules.luxuryTax !== DEFAULT_RULES.luxuryTax) parts.push(`Luxury Tax $${rules.luxuryTax}`);
+  if (rules.maxTurns > 0) parts.push(`${rules.maxTurns} turn limit`);
+  if (rules.timeLimitMinutes > 0) parts.push(`${rules.timeLimitMinutes} minute time limit`);
+  return parts.length ? parts.join(', ') : 'standard rules';
+}
@@ -0,0 +1,181 @@
+/**
+ * Turn timers. Turns may have a time limit, and each player may have a chess-clock
+ * budget for the whole game. Both count only the time the game spends waiting on the
+ * current player: the clock stops during auctions, debts and trade windows, which have
+ * deadlines of their own. Once a player is out of time, the game moves their turn on
+ * with the expiry actions the house rules allow.
+ */
+
+import { GameEventType, GameState, Player, TimerAction, TurnPhase } from './board-data';
+
+/** Phases in which the game waits on the current player, so their clock runs. */
+export const TIMED_PHASES: ReadonlySet<TurnPhase> = new Set<TurnPhase>(['pre-roll', 'jail-decision', 'resolve-landing', 'post-roll']);
+
+/** The expiry action that moves each timed phase on. */
+const PHASE_EXPIRY_ACTIONS: Partial<Record<TurnPhase, TimerAction>> = {
+  'pre-roll': 'auto-roll',
+  'jail-decision': 'auto-roll',
+  'resolve-landing': 'auto-decline-purchase',
+  'post-roll': 'auto-end-turn',
+};
+
+/** The action the game takes for the player on each expiry. */
+export const EXPIRY_EVENTS: Record<TimerAction, GameEventType> = {
+  'auto-roll': 'rollDice',
+  'auto-decline-purchase': 'declineToBuyProperty',
+  'auto-end-turn': 'endTurn',
+};
+
+/** The time left on the current player's timers, for client countdowns. */
+export interface TimersView {
+  /** Time left this turn, if turns are timed. */
+  turnMs?: number;
+  /** The current player's chess-clock time left, if the chess clock is on. */
+  clockMs?: number;
+  /** Whether the timers are counting down. */
+  running: boolean;
+}
+
+function currentPlayer(state: GameState): Player | undefined {
+  return state.players.find(p => p.id === state.currentPlayerId);
+}
+
+/**
+ * Time the running clock has counted since it last started.
+ * @param state The game state.
+ * @param now The current time.
+ */
+function runningFor(state: GameState, now: number): number {
+  const since = state.turnClock?.runningSince;
+  return since === undefined ? 0 : Math.max(0, now - since);
+}
+
+/**
+ * Stops the current player's clock, charging the time it ran to the turn and to the
+ * player's chess clock.
+ * @param state The game state.
+ * @param now The current time.
+ */
+function stopClock(state: GameState, now: number) {
+  const clock = state.turnClock;
+  if (!clock || clock.runningSince === undefined) return;
+  const used = runningFor(state, now);
+  clock.usedMs += used;
+  clock.runningSince = undefined;
+  const player = currentPlayer(state);
+  if (player && state.rules.chessClockMs > 0) player.clockMs = Math.max(0, (player.clockMs ?? state.rules.chessClockMs) - used);
+}
+
+/**
+ * Starts or stops the current player's clock to match the game. It runs from the
+ * first roll, while the phase waits on the current player.
+ * @param state The game state.
+ * @param now The current time.
+ */
+export function syncTurnClock(state: GameState, now: number) {
+  const clock = (state.turnClock ??= { usedMs: 0 });
+  if (clock.stalledPhase !== state.phase) clock.stalledPhase = undefined;
+  const run = state.startedAt !== undefined && state.status !== 'finished' && TIMED_PHASES.has(state.phase);
+  if (run && clock.runningSince === undefined) clock.runningSince = now;
+  else if (!run) stopClock(state, now);
+}
+
+/**
+ * Charges the current player for the turn that is ending and sets up an unused turn
+ * timer for the next one. Call before the current player changes.
+ * @param state The game state.
+ * @param now The current time.
+ */
+export function resetTurnClock(state: GameState, now: number) {
+  stopClock(state, now);
+  state.turnClock = { usedMs: 0 };
+}
+
+/**
+ * Time left in the current turn.
+ * @param state The game state.
+ * @param now The current time.
+ * @returns The time in milliseconds, or undefined if turns are not timed.
+ */
+export function turnTimeLeft(state: GameState, now: number): number | undefined {
+  if (!state.rules.turnTimeLimitMs) return undefined;
+  return Math.max(0, state.rules.turnTimeLimitMs - (state.turnClock?.usedMs ?? 0) - runningFor(state, now));
+}
+
+/**
+ * Time left on a player's chess clock, counting the current player's running clock.
+ * @param state The game state.
+ * @param player The player.
+ * @param now The current time.
+ * @returns The time in milliseconds, or undefined if there is no chess clock.
+ */
+export function clockTimeLeft(state: GameState, player: Player, now: number): number | undefined {
+  if (!state.rules.chessClockMs) return undefined;
+  const left = player.clockMs ?? state.rules.chessClockMs;
+  return Math.max(0, player.id === state.currentPlayerId ? left - runningFor(state, now) : left);
+}
+
+/**
+ * When the game next moves the current player on for running out of time. Nothing
+ * is due while the phase has no expiry action, or once the game has failed to move
+ * the player on in it: the player has to act themselves.
+ * @param state The game state.
+ * @param now The current time.
+ * @returns The time, or undefined if no timer is counting down to an expiry action.
+ */
+export function timerDeadline(state: GameState, now: number): number | undefined {
+  if (state.turnClock?.runningSince === undefined || !expiryAction(state)) return undefined;
+  const player = currentPlayer(state);
+  const left = [turnTimeLeft(state, now), player && clockTimeLeft(state, player, now)]
+    .filter((t): t is number => typeof t === 'number');
+  return left.length ? now + Math.min(...left) : undefined;
+}
+
+/**
+ * Which of the current player's timers has run out. Only a running clock runs out.
+ * @param state The game state.
+ * @param now The current time.
+ * @returns 'turn' or 'clock', or undefined if the player still has time.
+ */
+export function expiredTimer(state: GameState, now: number): 'turn' | 'clock' | undefined {
+  if (state.turnClock?.runningSince === undefined) return undefined;
+  if (turnTimeLeft(state, now) === 0) return 'turn';
+  const player = currentPlayer(state);
+  if (player && clockTimeLeft(state, player, now) === 0) return 'clock';
+  return undefined;
+}
+
+/**
+ * The expiry action that moves the current phase on.
+ * @param state The game state.
+ * @returns The action, or undefined if the house rules leave the phase to the player
+ * or the game has already failed to move them on in it.
+ */
+export function expiryAction(state: GameState): TimerAction | undefined {
+  if (state.turnClock?.stalledPhase === state.phase) return undefined;
+  const action = PHASE_EXPIRY_ACTIONS[state.phase];
+  return action && state.rules.timerActions.includes(action) ? action : undefined;
+}
+
+/**
+ * Notes that an expiry action did not move the current phase on, so the game stops
+ * trying until the phase changes.
+ * @param state The game state.
+ */
+export function markTimerStalled(state: GameState) {
+  if (state.turnClock) state.turnClock.stalledPhase = state.phase;
+}
+
+/**
+ * The current player's timers as clients show them.
+ * @param state The game state.
+ * @param now The current time.
+ * @returns The time left, or undefined if the game has no timers.
+ */
+export function timersView(state: GameState, now: number): TimersView | undefined {
+  const player = currentPlayer(state);
+  const turnMs = turnTimeLeft(state, now);
+  const clockMs = player && clockTimeLeft(state, player, now);
+  if (turnMs === undefined && clockMs === undefined) return undefined;
+  return { turnMs, clockMs, running: state.turnClock?.runningSince !== undefined };
+}
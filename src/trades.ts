@@ -0,0 +1,175 @@
+/**
+ * Trade validation. A trade is a set of legs, each handing money, properties or jail
+ * cards from one player to another. It is checked when it is proposed and again when
+ * it is accepted, since balances and ownership may have changed in between.
+ */
+
+import { Player, Square, Trade, TradeLeg, TradeSide } from './board-data';
+
+/**
+ * Builds a trade side from client input, dropping anything malformed.
+ * @param input The raw side sent by the client.
+ * @returns A side with whole, non-negative amounts and unique property IDs.
+ */
+export function normalizeTradeSide(input: any): TradeSide {
+  const whole = (v: any) => Math.max(0, Math.floor(Number(v) || 0));
+  const properties = Array.isArray(input?.properties) ? input.properties.map(Number).filter(Number.isInteger) : [];
+  return {
+    money: whole(input?.money),
+    properties: [...new Set<number>(properties)],
+    jailCards: whole(input?.jailCards),
+  };
+}
+
+/**
+ * Builds the legs of a trade from client input. Legs that give nothing, or that a
+ * player would give to themselves, are dropped.
+ * @param input The raw legs sent by the client.
+ * @returns The usable legs.
+ */
+export function normalizeTradeLegs(input: any): TradeLeg[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map(leg => ({ fromId: Number(leg?.fromId), toId: Number(leg?.toId), ...normalizeTradeSide(leg) }))
+    .filter(leg => Number.isInteger(leg.fromId) && Number.isInteger(leg.toId) && leg.fromId !== leg.toId && !isEmptySide(leg));
+}
+
+/**
+ * Turns a two-player offer into legs: what the initiator gives and what they ask for.
+ * @param initiatorId The player making the offer.
+ * @param recipientId The player it is made to.
+ * @param offer What the initiator gives.
+ * @param request What the initiator asks for in return.
+ * @returns The non-empty legs.
+ */
+export function legsFromOffer(initiatorId: number, recipientId: number, offer: TradeSide, request: TradeSide): TradeLeg[] {
+  return [
+    { fromId: initiatorId, toId: recipientId, ...offer },
+    { fromId: recipientId, toId: initiatorId, ...request },
+  ].filter(leg => !isEmptySide(leg));
+}
+
+/**
+ * Lists the players a trade involves, in order of first appearance.
+ * @param initiatorId The player proposing the trade.
+ * @param legs The trade's legs.
+ */
+export function tradeParticipants(initiatorId: number, legs: TradeLeg[]): number[] {
+  return [...new Set([initiatorId, ...legs.flatMap(leg => [leg.fromId, leg.toId])])];
+}
+
+/**
+ * Lists the players who give something in a trade but get nothing back.
+ * @param legs The trade's legs.
+ */
+export function giftGivers(legs: TradeLeg[]): number[] {
+  const givers = new Set(legs.map(leg => leg.fromId));
+  for (const leg of legs) givers.delete(leg.toId);
+  return [...givers];
+}
+
+/**
+ * Values what a player gives and gets in a trade: cash at face value, properties at
+ * their price (half that if mortgaged) and jail cards at the given value.
+ * @param squares The board.
+ * @param legs The trade's legs.
+ * @param playerId The player.
+ * @param jailCardValue What a Get Out of Jail Free card is worth.
+ * @returns The value the player gives and the value they get.
+ */
+export function tradeBalance(squares: Square[], legs: TradeLeg[], playerId: number, jailCardValue: number): { gives: number; gets: number } {
+  const value = (leg: TradeLeg) => leg.money + leg.jailCards * jailCardValue + leg.properties.reduce((sum, id) => {
+    const sq = squares.find(s => s.id === id);
+    return sum + (sq?.mortgaged ? Math.floor((sq.price || 0) / 2) : (sq?.price || 0));
+  }, 0);
+  let gives = 0, gets = 0;
+  for (const leg of legs) {
+    if (leg.fromId === playerId) gives += value(leg);
+    if (leg.toId === playerId) gets += value(leg);
+  }
+  return { gives, gets };
+}
+
+/**
+ * Upgrades a trade stored as a two-player offer and request to legs.
+ * @param trade The stored trade.
+ */
+export function migrateTrade(trade: Trade) {
+  const legacy = trade as any;
+  if (trade.legs) return;
+  trade.legs = legsFromOffer(legacy.initiatorId, legacy.recipientId, legacy.offer, legacy.request);
+  trade.participants = [legacy.initiatorId, legacy.recipientId];
+  trade.acceptedBy = [legacy.initiatorId];
+  delete legacy.recipientId;
+  delete legacy.offer;
+  delete legacy.request;
+}
+
+/**
+ * Counts the Get Out of Jail Free cards a player holds.
+ * @param player The player.
+ */
+export function jailCardCount(player: Player): number {
+  return (player.chanceJailCard ? 1 : 0) + (player.communityChestJailCard ? 1 : 0);
+}
+
+/**
+ * Whether a trade side gives nothing at all.
+ * @param side The side to check.
+ */
+export function isEmptySide(side: TradeSide): boolean {
+  return side.money === 0 && side.properties.length === 0 && side.jailCards === 0;
+}
+
+/**
+ * Checks that a player can hand over one side of a trade: enough cash and jail cards,
+ * and only properties they own in color groups without buildings.
+ * @param squares The board.
+ * @param player The player giving this side.
+ * @param side What they give.
+ * @returns The reason the side is invalid, or null if it is valid.
+ */
+export function tradeSideError(squares: Square[], player: Player, side: TradeSide): string | null {
+  if (player.bankrupt) return `${player.name} is bankrupt`;
+  if (player.money < side.money) return `${player.name} does not have $${side.money}`;
+  if (jailCardCount(player) < side.jailCards) return `${player.name} does not have ${side.jailCards} Get Out of Jail Free card(s)`;
+  for (const id of side.properties) {
+    const sq = squares.find(s => s.id === id);
+    if (!sq || (sq.type !== 'property' && sq.type !== 'railroad' && sq.type !== 'utility')) return `square ${id} cannot be traded`;
+    if (sq.ownerId !== player.id) return `${player.name} does not own ${sq.name}`;
+    if (sq.type === 'property' && squares.some(s => s.type === 'property' && s.group === sq.group && (s.houses || 0) > 0)) {
+      return `the ${sq.group} group has buildings; sell them before trading ${sq.name}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks that every player can hand over everything they give across all legs of a
+ * trade, out of what they hold before it executes.
+ * @param squares The board.
+ * @param players The players.
+ * @param legs The trade's legs.
+ * @returns The reason the trade is invalid, or null if it is valid.
+ */
+export function tradeLegsError(squares: Square[], players: Player[], legs: TradeLeg[]): string | null {
+  if (legs.length === 0) return 'the trade is empty';
+  const given = new Map<number, TradeSide>();
+  for (const leg of legs) {
+    if (!players.some(p => p.id === leg.toId && !p.bankrupt)) return `player ${leg.toId} cannot take part`;
+    const side = given.get(leg.fromId) || { money: 0, properties: [], jailCards: 0 };
+    if (leg.properties.some(id => side.properties.includes(id))) return 'a property is given twice';
+    given.set(leg.fromId, {
+      money: side.money + leg.money,
+      properties: [...side.properties, ...leg.properties],
+      jailCards: side.jailCards + leg.jailCards,
+    });
+  }
+  for (const [fromId, side] of given) {
+    const player = players.find(p => p.id === fromId);
+    if (!player) return `player ${fromId} cannot take part`;
+    const error = tradeSideError(squares, player, side);
+    if (error) return error;
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+/**
+ * Per-recipient views of the game state.
+ *
+ * The server keeps the whole state; every copy that leaves it is a projection for one
+ * viewer, a seated player or a spectator. Anything a viewer is not entitled to (deck
+ * order, the dice seed, other players' emails, sealed bids, other players' trade
+ * negotiations) is removed here, so broadcasts and HTTP endpoints cannot leak it.
+ */
+
+import { GameEvent, GameEventType, GameState, Player, RngState, Trade } from './board-data';
+
+/** Events whose payload holds the terms of a trade offer. */
+const TRADE_OFFER_EVENTS: ReadonlySet<GameEventType> = new Set<GameEventType>(['proposeTrade', 'counterTrade']);
+
+/**
+ * The state as one viewer sees it.
+ */
+export interface StateView extends Omit<GameState, 'chanceDeck' | 'communityChestDeck' | 'rng' | 'players'> {
+  players: Array<Omit<Player, 'email'> & { email?: string }>;
+  /** Cards left in each deck; the order stays on the server. */
+  chanceDeckSize: number;
+  communityChestDeckSize: number;
+  /** The seed is only included once it has been revealed. */
+  rng: Omit<RngState, 'seed'> & { seed?: string };
+}
+
+/**
+ * Builds the copy of the state a viewer may see.
+ * @param state The full state.
+ * @param viewerId The seated player the copy is for, or undefined for spectators.
+ * @returns The projection.
+ */
+export function projectState(state: GameState, viewerId?: number): StateView {
+  const { chanceDeck, communityChestDeck, rng, players, ...rest } = state;
+  const { seed, ...commitment } = rng;
+  return {
+    ...rest,
+    players: players.map(({ email, ...p }) => (p.id === viewerId && email !== undefined ? { ...p, email } : p)),
+    chanceDeckSize: chanceDeck.length,
+    communityChestDeckSize: communityChestDeck.length,
+    rng: rng.revealed ? { seed, ...commitment } : commitment,
+    auction: projectAuction(state.auction, viewerId),
+    trades: state.trades?.filter(t => isTradeVisible(t, viewerId)),
+  };
+}
+
+/**
+ * Hides other players' sealed bids from a viewer.
+ * @param auction The running auction, if any.
+ * @param viewerId The seated player the copy is for, or undefined for spectators.
+ * @returns The auction as the viewer may see it.
+ */
+export function projectAuction(auction: GameState['auction'], viewerId?: number): GameState['auction'] {
+  if (!auction?.sealed) return auction;
+  return { ...auction, bids: auction.bids.filter(b => b.playerId === viewerId) };
+}
+
+/**
+ * Hides from the public event log what the state hides while the game is on: the terms
+ * of trade offers and the sealed bids of the running auction.
+ * @param events The recorded events.
+ * @param state The live state.
+ * @returns The events with those payloads removed; all of them once the game is over.
+ */
+export function projectEvents(events: GameEvent[], state: GameState): GameEvent[] {
+  if (state.status === 'finished') return events;
+  const a = state.auction;
+  return events.map(e => {
+    const sealedBid = !!a?.sealed && e.type === 'placeBid' && e.seq > (a.sealedAfterSeq ?? 0);
+    return sealedBid || TRADE_OFFER_EVENTS.has(e.type) ? { ...e, payload: undefined } : e;
+  });
+}
+
+/**
+ * Whether a viewer may see an open trade. Offers are private to the players in them
+ * until they close; closed trades are public in the trade history.
+ * @param trade The open trade.
+ * @param viewerId The seated player, or undefined for spectators.
+ */
+function isTradeVisible(trade: Trade, viewerId?: number): boolean {
+  return viewerId !== undefined && trade.participants.includes(viewerId);
+}